@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+// The scraper ships as TypeScript; register tsx so the CLI runs without a build step.
+require('tsx/cjs');
+require('dotenv').config();
+const { logger } = require('../src/logger');
+require('../src/cli').main().catch((err) => {
+  logger.error(err instanceof Error ? err.message : String(err), { event: 'fatal' });
+  process.exitCode = 1;
+});
@@ -16,9 +16,17 @@ export default defineConfig({
   },
   projects: [
     {
+      // Fixture-based tests against a local stand-in server; no credentials or network needed.
+      name: 'offline',
+      testDir: './tests/offline',
+      timeout: 30_000,
+      use: { ...devices['Desktop Chrome'], headless: true },
+    },
+    {
+      // Live scrape of medstatsupplies.com; needs MEDSTAT_EMAIL / MEDSTAT_PASSWORD.
       name: 'chromium',
+      testIgnore: /offline\//,
       use: { ...devices['Desktop Chrome'] },
     },
   ],
 });
-
@@ -0,0 +1,241 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { snapshotStockStatus } from './history';
+import type { HistoryRun, ProductSnapshot } from './history';
+import { logger } from './logger';
+import { createNotifier } from './notifiers';
+import type { NotifierConfig } from './notifiers';
+import { DEFAULT_OUTPUT_DIR } from './output';
+import { errorMessage } from './retry';
+
+export const DEFAULT_ALERTS_CONFIG_PATH = 'alerts.config.json';
+export const ALERTS_STATE_FILENAME = 'alerts_state.json';
+
+export type AlertField = 'price' | 'stock' | 'priceDeltaPercent';
+export type AlertOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+export type AlertRule = {
+  name: string;
+  // Watched products: exact SKUs and/or a case-insensitive regex over the product name.
+  sku?: string | string[];
+  namePattern?: string;
+  condition: { field: AlertField; op: AlertOperator; value: number };
+};
+
+export type AlertsConfig = {
+  rules: AlertRule[];
+  notifiers: NotifierConfig[];
+};
+
+export type Alert = {
+  rule: string;
+  productKey: string;
+  sku: string | null;
+  productName: string | null;
+  productUrl: string;
+  field: AlertField;
+  op: AlertOperator;
+  threshold: number;
+  actual: number;
+  message: string;
+};
+
+// Alerts that fired on earlier runs and are still true; they are not re-sent until the condition clears.
+export type AlertsState = {
+  active: Record<string, string>;
+};
+
+export async function loadAlertsConfig(filePath: string = DEFAULT_ALERTS_CONFIG_PATH): Promise<AlertsConfig | null> {
+  const resolved = path.resolve(filePath);
+  let raw: string;
+  try {
+    raw = await fs.readFile(resolved, 'utf8');
+  } catch {
+    return null;
+  }
+  const config = JSON.parse(raw) as AlertsConfig;
+  if (!Array.isArray(config.rules) || !Array.isArray(config.notifiers)) {
+    throw new Error(`${resolved}: expected "rules" and "notifiers" lists.`);
+  }
+  for (const rule of config.rules) {
+    if (!rule.name || !rule.condition) throw new Error(`${resolved}: every rule needs a "name" and a "condition".`);
+    if (rule.name.includes('::')) throw new Error(`${resolved}: rule "${rule.name}" may not contain "::" in its name.`);
+    if (!rule.sku && !rule.namePattern) throw new Error(`${resolved}: rule "${rule.name}" needs "sku" or "namePattern".`);
+    if (!['price', 'stock', 'priceDeltaPercent'].includes(rule.condition.field)) {
+      throw new Error(`${resolved}: rule "${rule.name}" has unknown field "${rule.condition.field}".`);
+    }
+    if (!['<', '<=', '>', '>=', '==', '!='].includes(rule.condition.op)) {
+      throw new Error(`${resolved}: rule "${rule.name}" has unknown operator "${rule.condition.op}".`);
+    }
+    if (rule.namePattern !== undefined) {
+      try {
+        new RegExp(rule.namePattern, 'i');
+      } catch (err) {
+        throw new Error(`${resolved}: rule "${rule.name}" has an invalid "namePattern": ${errorMessage(err)}`);
+      }
+    }
+  }
+  // Fail on unknown notifier types before a run is recorded, not when its alerts are sent.
+  for (const notifierConfig of config.notifiers) {
+    try {
+      createNotifier(notifierConfig);
+    } catch (err) {
+      throw new Error(`${resolved}: ${errorMessage(err)}`);
+    }
+  }
+  return config;
+}
+
+function compare(actual: number, op: AlertOperator, threshold: number): boolean {
+  switch (op) {
+    case '<':
+      return actual < threshold;
+    case '<=':
+      return actual <= threshold;
+    case '>':
+      return actual > threshold;
+    case '>=':
+      return actual >= threshold;
+    case '==':
+      return actual === threshold;
+    case '!=':
+      return actual !== threshold;
+    default:
+      return false;
+  }
+}
+
+function ruleMatches(rule: AlertRule, product: ProductSnapshot): boolean {
+  const skus = rule.sku === undefined ? [] : Array.isArray(rule.sku) ? rule.sku : [rule.sku];
+  if (product.sku && skus.some((s) => s.trim().toUpperCase() === product.sku?.trim().toUpperCase())) return true;
+  return !!rule.namePattern && !!product.productName && new RegExp(rule.namePattern, 'i').test(product.productName);
+}
+
+// Stock shown only as text counts as 0 when out of stock or backordered and 1 when in stock, so "stock <= 0" and
+// "stock > 0" rules also cover pages without a quantity.
+function stockValue(product: ProductSnapshot): number | null {
+  if (product.stock !== null) return product.stock;
+  const status = snapshotStockStatus(product);
+  if (status === 'unknown') return null;
+  return status === 'in_stock' ? 1 : 0;
+}
+
+function fieldValue(field: AlertField, now: ProductSnapshot, was: ProductSnapshot | undefined): number | null {
+  if (field === 'price') return now.price;
+  if (field === 'stock') return stockValue(now);
+  if (!was || was.price === null || now.price === null || was.price === 0) return null;
+  return Math.round(((now.price - was.price) / was.price) * 10000) / 100;
+}
+
+// Rule names may not contain "::", so the product key is everything after the first one.
+export function alertId(alert: Pick<Alert, 'rule' | 'productKey'>): string {
+  return `${alert.rule}::${alert.productKey}`;
+}
+
+// Every rule/product pair whose condition holds for the current run.
+export function evaluateAlerts(rules: AlertRule[], current: HistoryRun, previous: HistoryRun | null): Alert[] {
+  const alerts: Alert[] = [];
+  for (const rule of rules) {
+    for (const [key, product] of Object.entries(current.products)) {
+      if (!ruleMatches(rule, product)) continue;
+      const { field, op, value } = rule.condition;
+      const actual = fieldValue(field, product, previous?.products[key]);
+      if (actual === null || !compare(actual, op, value)) continue;
+      alerts.push({
+        rule: rule.name,
+        productKey: key,
+        sku: product.sku,
+        productName: product.productName,
+        productUrl: product.productUrl,
+        field,
+        op,
+        threshold: value,
+        actual,
+        message: `[${rule.name}] ${product.sku ?? product.productUrl} ${product.productName ?? ''}: ${field} ${actual} ${op} ${value}`,
+      });
+    }
+  }
+  return alerts;
+}
+
+export async function loadAlertsState(outputDir: string = DEFAULT_OUTPUT_DIR): Promise<AlertsState> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(outputDir, ALERTS_STATE_FILENAME), 'utf8')) as AlertsState;
+  } catch {
+    return { active: {} };
+  }
+}
+
+export async function saveAlertsState(state: AlertsState, outputDir: string = DEFAULT_OUTPUT_DIR): Promise<void> {
+  await fs.mkdir(outputDir, { recursive: true });
+  await fs.writeFile(path.join(outputDir, ALERTS_STATE_FILENAME), JSON.stringify(state, null, 2), 'utf8');
+}
+
+// Splits the evaluated alerts into the ones not sent before, and returns the state to persist once the fresh ones
+// were delivered. Alerts whose condition cleared drop out of the state, so they fire again when it recurs; alerts of
+// products missing from the run (failed, or of a target not scraped) were not re-checked and stay in it.
+export function dedupeAlerts(alerts: Alert[], state: AlertsState, current: HistoryRun): { fresh: Alert[]; nextState: AlertsState } {
+  const active: Record<string, string> = {};
+  const fresh: Alert[] = [];
+  for (const alert of alerts) {
+    const id = alertId(alert);
+    if (state.active[id]) {
+      active[id] = state.active[id];
+    } else {
+      active[id] = current.runId;
+      fresh.push(alert);
+    }
+  }
+  for (const [id, since] of Object.entries(state.active)) {
+    if (!current.products[id.slice(id.indexOf('::') + 2)]) active[id] = since;
+  }
+  return { fresh, nextState: { active } };
+}
+
+// The state to persist when no notifier delivered the fresh alerts: they stay fresh and are retried next run.
+export function withoutUndelivered(state: AlertsState, undelivered: Alert[]): AlertsState {
+  const active = { ...state.active };
+  for (const alert of undelivered) delete active[alertId(alert)];
+  return { active };
+}
+
+export type RunAlertsOptions = {
+  outputDir?: string;
+  // Evaluate and print alerts without notifying anyone or updating the dedup state.
+  dryRun?: boolean;
+};
+
+export async function runAlerts(
+  config: AlertsConfig,
+  current: HistoryRun,
+  previous: HistoryRun | null,
+  options: RunAlertsOptions = {},
+): Promise<Alert[]> {
+  const outputDir = options.outputDir ?? DEFAULT_OUTPUT_DIR;
+  const alerts = evaluateAlerts(config.rules, current, previous);
+  const { fresh, nextState } = dedupeAlerts(alerts, await loadAlertsState(outputDir), current);
+  if (options.dryRun) {
+    logger.info(`[dry run] ${alerts.length} alert(s) match, ${fresh.length} would be sent:`);
+    for (const alert of fresh) {
+      logger.info(`  ${alert.message}`);
+    }
+    return fresh;
+  }
+  const notifiers = config.notifiers.map(createNotifier);
+  let delivered = 0;
+  if (fresh.length) {
+    for (const notifier of notifiers) {
+      try {
+        await notifier.send(fresh, current.runId);
+        delivered += 1;
+      } catch (err) {
+        // One broken channel should not keep the others from being notified.
+        logger.warn(`Notifier ${notifier.name} failed: ${errorMessage(err)}`, { notifier: notifier.name, error: err });
+      }
+    }
+  }
+  const sent = delivered > 0 ? fresh : [];
+  await saveAlertsState(delivered > 0 ? nextState : withoutUndelivered(nextState, fresh), outputDir);
+  logger.info(`Alerts: ${alerts.length} matching, ${sent.length} sent`, { event: 'alerts', matching: alerts.length, sent: sent.length });
+  return sent;
+}
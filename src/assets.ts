@@ -0,0 +1,131 @@
+import type { Page } from '@playwright/test';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { asJsonLdNode, jsonLdProducts, jsonLdText, readJsonLdBlocks } from './jsonld';
+import { logger } from './logger';
+import { DEFAULT_OUTPUT_DIR } from './output';
+import { errorMessage } from './retry';
+import type { AssetKind, ProductAsset, ProductRecord } from './types';
+
+export const ASSETS_DIRNAME = 'assets';
+// Larger files are skipped rather than filling the repository the scheduled job commits to.
+const MAX_ASSET_BYTES = 25 * 1024 * 1024;
+
+export type AssetLink = { kind: AssetKind; url: string };
+
+// Document links are only read inside the product details; header and footer carry site-wide PDFs (catalogs, policies).
+const PRODUCT_DETAILS_SELECTOR = '.product-details-full, #product-details-full-form, [itemtype*="schema.org/Product"]';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg',
+  'application/pdf': '.pdf',
+};
+
+// schema.org image is a URL, an ImageObject or a list of either.
+function jsonLdImages(blocks: string[], pageUrl: string): AssetLink[] {
+  const links: AssetLink[] = [];
+  for (const product of jsonLdProducts(blocks)) {
+    const images = Array.isArray(product.image) ? product.image : [product.image];
+    for (const image of images) {
+      const url = jsonLdText(image) ?? jsonLdText(asJsonLdNode(image)?.url) ?? jsonLdText(asJsonLdNode(image)?.contentUrl);
+      if (url && !url.startsWith('data:')) links.push({ kind: 'image', url: new URL(url, pageUrl).toString() });
+    }
+  }
+  return links;
+}
+
+// Reads product images (gallery, schema.org image, og:image) and linked spec sheets / SDS documents from the page.
+export async function readAssetLinks(page: Page): Promise<AssetLink[]> {
+  const fromPage = await page
+    .evaluate((detailsSelector) => {
+      const found: Array<{ kind: 'image' | 'document'; url: string }> = [];
+      const add = (kind: 'image' | 'document', url: string | null | undefined) => {
+        if (!url || url.startsWith('data:')) return;
+        found.push({ kind, url: new URL(url, document.baseURI).toString() });
+      };
+      const gallery = document.querySelectorAll(
+        '.product-details-image-gallery img, .product-details-full-image-gallery img, [itemtype*="schema.org/Product"] [itemprop="image"]',
+      );
+      gallery.forEach((el) => add('image', el.getAttribute('data-zoom-image') || el.getAttribute('src') || el.getAttribute('content')));
+      add('image', document.querySelector('meta[property="og:image"]')?.getAttribute('content'));
+      const details = Array.from(document.querySelectorAll(detailsSelector));
+      const anchors = details.flatMap((container) => Array.from(container.querySelectorAll('a[href]')));
+      for (const a of anchors) {
+        const href = a.getAttribute('href') || '';
+        const label = `${a.textContent || ''} ${a.getAttribute('title') || ''}`;
+        if (/\.pdf(\?|#|$)/i.test(href) || /\b(spec(ification)?s?\s*sheet|sds|msds|safety data|data sheet|instructions|brochure)\b/i.test(label)) {
+          add('document', href);
+        }
+      }
+      return found;
+    }, PRODUCT_DETAILS_SELECTOR)
+    .catch(() => [] as AssetLink[]);
+  const links = [
+    ...fromPage.filter((l) => l.kind === 'image'),
+    ...jsonLdImages(await readJsonLdBlocks(page), page.url()),
+    ...fromPage.filter((l) => l.kind === 'document'),
+  ];
+  const seen = new Set<string>();
+  return links.filter((l) => !seen.has(l.url) && seen.add(l.url));
+}
+
+function assetDirName(record: ProductRecord): string {
+  if (record.sku) return record.sku.trim().replace(/[^A-Za-z0-9._-]+/g, '_');
+  return `url-${createHash('sha1').update(record.productUrl).digest('hex').slice(0, 12)}`;
+}
+
+function extensionFor(url: string, contentType: string): string {
+  const fromType = EXTENSIONS[contentType.split(';')[0].trim().toLowerCase()];
+  if (fromType) return fromType;
+  const fromPath = path.extname(new URL(url).pathname).toLowerCase();
+  return /^\.[a-z0-9]{1,5}$/.test(fromPath) ? fromPath : '.bin';
+}
+
+// Downloads with the page's cookies into <outputDir>/assets/<sku>/<sha256 prefix><ext>; identical content maps to
+// the same file, so repeated runs and duplicate links never store a file twice.
+export async function downloadAsset(page: Page, link: AssetLink, record: ProductRecord, outputDir: string): Promise<ProductAsset> {
+  const response = await page.request.get(link.url);
+  if (!response.ok()) throw new Error(`${response.status()} ${response.statusText()}`);
+  const body = await response.body();
+  if (body.length > MAX_ASSET_BYTES) throw new Error(`larger than ${MAX_ASSET_BYTES} bytes`);
+  const contentType = response.headers()['content-type'] ?? '';
+  const sha256 = createHash('sha256').update(body).digest('hex');
+  const relativePath = path.join(ASSETS_DIRNAME, assetDirName(record), `${sha256.slice(0, 16)}${extensionFor(link.url, contentType)}`);
+  const filePath = path.join(outputDir, relativePath);
+  const exists = await fs.stat(filePath).then(() => true, () => false);
+  if (!exists) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+  return { kind: link.kind, url: link.url, path: relativePath.split(path.sep).join('/'), sha256, contentType, bytes: body.length };
+}
+
+// Returns the record with the assets that could be downloaded; a failing asset only produces a warning.
+export async function withAssets(
+  page: Page,
+  record: ProductRecord,
+  links: AssetLink[],
+  outputDir: string = DEFAULT_OUTPUT_DIR,
+): Promise<ProductRecord> {
+  const assets: ProductAsset[] = [];
+  for (const link of links) {
+    try {
+      const asset = await downloadAsset(page, link, record, outputDir);
+      if (!assets.some((a) => a.sha256 === asset.sha256)) assets.push(asset);
+    } catch (err) {
+      logger.warn(`Asset ${link.url} of ${record.productUrl} skipped: ${errorMessage(err)}`, { url: link.url, productUrl: record.productUrl, error: err });
+    }
+  }
+  return { ...record, assets };
+}
+
+// Content hashes of a record's images, sorted so the same set compares equal across runs.
+export function imageHashes(record: Pick<ProductRecord, 'assets'>): string[] | undefined {
+  if (!record.assets) return undefined;
+  return Array.from(new Set(record.assets.filter((a) => a.kind === 'image').map((a) => a.sha256))).sort();
+}
@@ -0,0 +1,169 @@
+import type { BrowserContext, Page } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+import type { SiteConfig } from './types';
+
+export const DEFAULT_AUTH_DIR = path.resolve('.auth');
+
+// SuiteCommerce header: the account menu replaces the "Log In" link once a customer session exists.
+const DEFAULT_LOGGED_IN_SELECTOR = '.header-profile-welcome-link, .header-menu-myaccount-anchor, [data-touchpoint="logout"]';
+const DEFAULT_LOGGED_OUT_SELECTOR = '.header-profile-login-link, [data-touchpoint="login"]';
+const LOGIN_ERROR_SELECTOR = '.global-views-message-error, .login-register-login-form .global-views-message';
+
+export type AuthErrorReason = 'missing_credentials' | 'rejected' | 'unverified';
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    readonly reason: AuthErrorReason,
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// Thrown from a product visit that landed on a logged-out page; the retry re-runs it after re-authenticating.
+export class SessionExpiredError extends Error {
+  constructor(url: string) {
+    super(`Session expired while loading ${url}`);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+export type AuthOptions = {
+  // Where the site's Playwright storageState is persisted between runs; nothing is saved when omitted.
+  storageStatePath?: string;
+  // Restore the saved session before falling back to the login form (default true).
+  reuseSession?: boolean;
+};
+
+export function storageStatePathForSite(siteKey: string, authDir: string = DEFAULT_AUTH_DIR): string {
+  return path.join(authDir, `${siteKey}.json`);
+}
+
+// Reads the login state from the header of the page as it is; null when neither marker rendered in time.
+export async function readLoginState(page: Page, site: SiteConfig, timeout = 10000): Promise<boolean | null> {
+  const loggedIn = site.loggedInSelector || DEFAULT_LOGGED_IN_SELECTOR;
+  const loggedOut = site.loggedOutSelector || DEFAULT_LOGGED_OUT_SELECTOR;
+  const marker = page.locator(`${loggedIn}, ${loggedOut}`).first();
+  const found = await marker.waitFor({ state: 'attached', timeout }).then(() => true, () => false);
+  if (!found) return null;
+  if (await page.locator(loggedIn).count()) return true;
+  return false;
+}
+
+export async function isLoggedIn(page: Page, site: SiteConfig): Promise<boolean> {
+  await page.goto(site.baseUrl, { waitUntil: 'domcontentloaded' });
+  return (await readLoginState(page, site)) === true;
+}
+
+// The parts of a saved Playwright storageState that restoreSession() puts back into the running context.
+type SavedSession = {
+  cookies?: Parameters<BrowserContext['addCookies']>[0];
+  origins?: Awaited<ReturnType<BrowserContext['storageState']>>['origins'];
+};
+
+// localStorage can only be written from a page of its origin; the isLoggedIn() check that follows reloads the site with it.
+async function restoreSession(page: Page, storageStatePath: string): Promise<boolean> {
+  try {
+    const state = JSON.parse(await fs.readFile(storageStatePath, 'utf8')) as SavedSession;
+    if (!state.cookies?.length) return false;
+    await page.context().addCookies(state.cookies);
+    for (const { origin, localStorage } of state.origins ?? []) {
+      if (!localStorage?.length) continue;
+      await page.goto(origin, { waitUntil: 'domcontentloaded' });
+      await page.evaluate((items) => items.forEach(({ name, value }) => window.localStorage.setItem(name, value)), localStorage);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function login(page: Page, site: SiteConfig, options: AuthOptions = {}): Promise<void> {
+  const emailEnv = site.emailEnv || 'MEDSTAT_EMAIL';
+  const passwordEnv = site.passwordEnv || 'MEDSTAT_PASSWORD';
+  const email = process.env[emailEnv] || '';
+  const password = process.env[passwordEnv] || '';
+  if (!email || !password) {
+    throw new AuthError(`Please set ${emailEnv} and ${passwordEnv} in your .env file.`, 'missing_credentials');
+  }
+
+  await page.goto(site.loginUrl, { waitUntil: 'domcontentloaded' });
+  // Fill email & password (selectors based on codegen ARIA roles)
+  await page.getByRole('textbox', { name: /Email Address/i }).click();
+  await page.getByRole('textbox', { name: /Email Address/i }).fill(email);
+  await page.getByRole('textbox', { name: /Password/i }).click();
+  await page.getByRole('textbox', { name: /Password/i }).fill(password);
+  await page.getByRole('button', { name: /Log In/i }).click();
+
+  // Either we leave the login URL / the form disappears, or SCA shows an error message next to the form.
+  const outcome = await Promise.race([
+    page.waitForURL((url) => !url.toString().includes('login'), { timeout: 20000 }).then(() => 'left' as const),
+    page.getByRole('textbox', { name: /Email Address/i }).waitFor({ state: 'detached', timeout: 20000 }).then(() => 'left' as const),
+    page.locator(LOGIN_ERROR_SELECTOR).first().waitFor({ state: 'visible', timeout: 20000 }).then(() => 'error' as const),
+  ]).catch(() => 'timeout' as const);
+  if (outcome === 'error') {
+    const message = (await page.locator(LOGIN_ERROR_SELECTOR).first().innerText().catch(() => '')).trim();
+    throw new AuthError(`Login to ${site.baseUrl} was rejected${message ? `: ${message}` : ''}`, 'rejected');
+  }
+  await page.waitForLoadState('networkidle');
+
+  if (!(await isLoggedIn(page, site))) {
+    throw new AuthError(`Could not verify the login to ${site.baseUrl}; the account menu never appeared.`, 'unverified');
+  }
+  if (options.storageStatePath) {
+    await fs.mkdir(path.dirname(options.storageStatePath), { recursive: true });
+    await page.context().storageState({ path: options.storageStatePath });
+  }
+}
+
+// Reuses the persisted session when it is still valid, otherwise logs in through the UI and persists the new one.
+export async function loginIfNeeded(page: Page, site: SiteConfig, options: AuthOptions = {}): Promise<void> {
+  if (options.storageStatePath && options.reuseSession !== false && (await restoreSession(page, options.storageStatePath))) {
+    if (await isLoggedIn(page, site)) {
+      logger.info(`Reusing saved session for ${site.baseUrl}`);
+      return;
+    }
+    logger.info(`Saved session for ${site.baseUrl} expired; logging in again`);
+    await page.context().clearCookies();
+  }
+  await login(page, site, options);
+}
+
+export type SessionGuard = {
+  // Throws SessionExpiredError (after re-authenticating) when the page shows a logged-out header.
+  check: (page: Page) => Promise<void>;
+};
+
+// One guard per site and run: concurrent workers that notice an expired session share a single re-login,
+// done on the page that noticed it since every worker lives in the same browser context. A re-login that fails with
+// an AuthError is remembered and rethrown to later callers; submitting rejected credentials again risks a lockout.
+export function createSessionGuard(site: SiteConfig, options: AuthOptions = {}): SessionGuard {
+  let relogin: Promise<void> | null = null;
+  let rejected: AuthError | null = null;
+  return {
+    check: async (page: Page) => {
+      if ((await readLoginState(page, site, 2000)) !== false) return;
+      if (rejected) throw rejected;
+      const url = page.url();
+      if (!relogin) {
+        logger.warn(`Session for ${site.baseUrl} expired mid-run; re-authenticating`);
+        relogin = (async () => {
+          await page.context().clearCookies();
+          await login(page, site, options);
+        })()
+          .catch((err) => {
+            if (err instanceof AuthError) rejected = err;
+            throw err;
+          })
+          .finally(() => {
+            relogin = null;
+          });
+      }
+      await relogin;
+      throw new SessionExpiredError(url);
+    },
+  };
+}
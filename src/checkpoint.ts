@@ -0,0 +1,40 @@
+import { promises as fs } from 'fs';
+import type { ProductRecord } from './types';
+
+// Progress of one target, rewritten after every scraped product so a crashed run can pick up where it stopped.
+export type TargetCheckpoint = {
+  target: string;
+  productUrls: string[];
+  // Keyed by the collected product URL (the record's own productUrl may differ after redirects).
+  records: Record<string, ProductRecord>;
+};
+
+export async function loadCheckpoint(filePath: string, target: string): Promise<TargetCheckpoint | null> {
+  try {
+    const checkpoint = JSON.parse(await fs.readFile(filePath, 'utf8')) as TargetCheckpoint;
+    return checkpoint.target === target ? checkpoint : null;
+  } catch {
+    return null;
+  }
+}
+
+// Returns a writer that stores a finished record; writes are serialized so concurrent workers never interleave.
+export function createCheckpointWriter(
+  filePath: string,
+  checkpoint: TargetCheckpoint,
+): (url: string, record: ProductRecord) => Promise<void> {
+  let pending: Promise<void> = Promise.resolve();
+  return (url: string, record: ProductRecord) => {
+    checkpoint.records[url] = record;
+    pending = pending.then(async () => {
+      const tmpPath = `${filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(checkpoint), 'utf8');
+      await fs.rename(tmpPath, filePath);
+    });
+    return pending;
+  };
+}
+
+export async function removeCheckpoint(filePath: string): Promise<void> {
+  await fs.rm(filePath, { force: true });
+}
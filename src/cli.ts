@@ -0,0 +1,245 @@
+import { parseArgs } from 'util';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { DEFAULT_ALERTS_CONFIG_PATH, loadAlertsConfig, runAlerts } from './alerts';
+import { DEFAULT_CONFIG_PATH, loadConfig } from './config';
+import { diffLatest, summarizeDiff } from './diff';
+import { HISTORY_FILENAME, loadHistory } from './history';
+import { LOG_FORMATS, LOG_LEVELS, configureLogging, logger } from './logger';
+import type { LogFormat, LogLevel } from './logger';
+import { METRICS_HISTORY_FILENAME, loadMetricsHistory, renderMetricsSummary } from './metrics';
+import { DEFAULT_OUTPUT_DIR } from './output';
+import { openReplay, replayRecording } from './recording';
+import { writeChangeReport } from './report';
+import { collectUrls, exportExcel, exportFile, scrape, withPage } from './scraper';
+import { DEFAULT_SERVER_HOST, DEFAULT_SERVER_PORT, startServer } from './server';
+import type { ScrapeOptions } from './types';
+
+const USAGE = `Usage: bluestar-scraper <command> [options]
+
+Commands:
+  scrape   Collect product URLs and scrape product details for each target
+  urls     Collect product URLs only
+  export   Write an Excel workbook from a previously scraped JSON file
+  alerts   Evaluate alert rules against the last recorded run and notify
+  replay   Re-run URL collection and extraction offline from a recorded session
+  changes  Show what changed between the last two recorded runs and rewrite the change report
+  serve    Serve a local dashboard and REST API over the scraped data
+  metrics  Print the run metrics summary as Markdown (e.g. for a CI job summary)
+
+Options (all commands):
+  --log-level <level>  debug, info, warn or error (default: info)
+  --log-format <fmt>   text, or json for one structured log entry per line (default: text)
+
+Options (scrape, urls):
+  --config <file>      Targets config (default: ${DEFAULT_CONFIG_PATH} or $SCRAPE_CONFIG)
+  --target <name>      Only run this target; repeatable
+  --pages <n>          Max search result pages per target (e.g. 1 for a quick run)
+  --output-dir <dir>   Output directory (default: data)
+  --concurrency <n>    Product pages scraped in parallel (scrape only, default: 4)
+  --delay <ms>         Minimum delay between requests to the same host (default: 500)
+  --retries <n>        Extra attempts per product URL with exponential backoff (default: 2)
+  --mode <html|api>    'api' reads the SuiteCommerce items API, falling back to HTML per product (default: html)
+  --alerts <file>      Alert rules and notifiers (default: ${DEFAULT_ALERTS_CONFIG_PATH}, skipped if missing)
+  --dry-run            Print alerts instead of sending them (also for the alerts command)
+  --compare-prices     Also scrape every product anonymously and record guest vs account price and discount
+  --assets             Download product images and linked documents into <output-dir>/assets/<sku>/
+  --record             Record every site response under <output-dir>/recordings/<run id> for replay
+  --skip-quality-gate  Keep going when the run breaks the config's quality thresholds
+  --incremental        Only scrape new, watched and stale products; carry the rest over (see "incremental" in the config)
+  --fresh              Ignore checkpoints left by a crashed run and start over
+  --auth-dir <dir>     Where saved login sessions are kept (default: .auth)
+  --fresh-login        Log in through the login form even when a saved session is still valid
+  --headed             Show the browser window (headless by default)
+
+Options (alerts):
+  --alerts <file>      Alert rules and notifiers (default: ${DEFAULT_ALERTS_CONFIG_PATH})
+  --dry-run            Print alerts instead of sending them
+  --output-dir <dir>   Directory holding ${HISTORY_FILENAME} (default: data)
+
+Options (replay):
+  --recording <dir>    Recording directory written by scrape --record
+  --url <url>          Only re-extract this recorded product URL; repeatable
+  --concurrency <n>    Product pages extracted in parallel (default: 4)
+  --headed             Show the browser window
+
+Options (changes):
+  --output-dir <dir>   Directory holding ${HISTORY_FILENAME} (default: data)
+
+Options (serve):
+  --port <n>           Port to listen on (default: ${DEFAULT_SERVER_PORT})
+  --host <addr>        Address to bind (default: ${DEFAULT_SERVER_HOST}; the API can start scrapes). Requests must
+                       name the bound address (or localhost) as Host; with 0.0.0.0, open the server by IP address
+  --output-dir <dir>   Directory holding products_all.json and ${HISTORY_FILENAME} (default: data)
+  Scrapes started from the dashboard use the scrape options given here (--config, --target, --mode, ...).
+
+Options (metrics):
+  --output-dir <dir>   Directory holding ${METRICS_HISTORY_FILENAME} (default: data)
+
+Options (export):
+  --input <file>       Products JSON to export (default: <output-dir>/products_all.json)
+  --format <format>    xlsx, csv or ndjson (default: xlsx)
+  --excel <file>       Output filename inside the output dir (default: products_all.<format>)
+  --columns <keys>     Comma-separated column keys in output order, csv/ndjson only (default: all)
+  --bom                Start the CSV with a UTF-8 byte order mark for Excel
+  --output-dir <dir>   Output directory (default: data)
+`;
+
+function parseIntFlag(flag: string, value: string | undefined, min: number): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number.parseInt(value, 10);
+  if (Number.isNaN(n) || n < min) throw new Error(`--${flag} must be an integer >= ${min}, got "${value}"`);
+  return n;
+}
+
+export async function main(argv: string[] = process.argv.slice(2)): Promise<void> {
+  const { positionals, values } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: 'string' },
+      target: { type: 'string', multiple: true },
+      pages: { type: 'string' },
+      concurrency: { type: 'string' },
+      delay: { type: 'string' },
+      retries: { type: 'string' },
+      fresh: { type: 'boolean', default: false },
+      incremental: { type: 'boolean', default: false },
+      'auth-dir': { type: 'string' },
+      'fresh-login': { type: 'boolean', default: false },
+      mode: { type: 'string', default: 'html' },
+      alerts: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      record: { type: 'boolean', default: false },
+      'compare-prices': { type: 'boolean', default: false },
+      assets: { type: 'boolean', default: false },
+      'skip-quality-gate': { type: 'boolean', default: false },
+      recording: { type: 'string' },
+      url: { type: 'string', multiple: true },
+      'output-dir': { type: 'string' },
+      headed: { type: 'boolean', default: false },
+      input: { type: 'string' },
+      excel: { type: 'string' },
+      format: { type: 'string', default: 'xlsx' },
+      columns: { type: 'string' },
+      bom: { type: 'boolean', default: false },
+      port: { type: 'string' },
+      host: { type: 'string' },
+      'log-level': { type: 'string', default: 'info' },
+      'log-format': { type: 'string', default: 'text' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  const [command] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+
+  const level = values['log-level'] as LogLevel;
+  const format = values['log-format'] as LogFormat;
+  if (!LOG_LEVELS.includes(level)) throw new Error(`--log-level must be one of ${LOG_LEVELS.join(', ')}, got "${level}"`);
+  if (!LOG_FORMATS.includes(format)) throw new Error(`--log-format must be one of ${LOG_FORMATS.join(', ')}, got "${format}"`);
+  configureLogging({ level, format });
+
+  if (values.mode !== 'html' && values.mode !== 'api') throw new Error(`--mode must be "html" or "api", got "${values.mode}"`);
+  const outputDir = values['output-dir'] ? path.resolve(values['output-dir']) : DEFAULT_OUTPUT_DIR;
+  const options: ScrapeOptions = {
+    outputDir,
+    maxPages: parseIntFlag('pages', values.pages, 1),
+    targets: values.target,
+    concurrency: parseIntFlag('concurrency', values.concurrency, 1),
+    politenessDelayMs: parseIntFlag('delay', values.delay, 0),
+    retries: parseIntFlag('retries', values.retries, 0),
+    resume: !values.fresh,
+    incremental: values.incremental,
+    authDir: values['auth-dir'] ? path.resolve(values['auth-dir']) : undefined,
+    reuseSession: !values['fresh-login'],
+    mode: values.mode,
+    alertsConfig: values.alerts,
+    alertsDryRun: values['dry-run'],
+    record: values.record,
+    comparePrices: values['compare-prices'],
+    assets: values.assets,
+    qualityGate: !values['skip-quality-gate'],
+  };
+
+  switch (command) {
+    case 'scrape': {
+      const config = await loadConfig(values.config);
+      const { records } = await withPage({ headless: !values.headed }, (page) => scrape(page, config, options));
+      if (records.length === 0) throw new Error('Scrape finished without any products.');
+      return;
+    }
+    case 'urls': {
+      const config = await loadConfig(values.config);
+      await withPage({ headless: !values.headed }, (page) => collectUrls(page, config, options));
+      return;
+    }
+    case 'export': {
+      const input = values.input ?? path.join(outputDir, 'products_all.json');
+      if (values.format === 'xlsx') {
+        await exportExcel(input, values.excel ?? 'products_all.xlsx', outputDir);
+        return;
+      }
+      const columns = values.columns?.split(',').map((c) => c.trim()).filter(Boolean);
+      await exportFile(input, { format: values.format, filename: values.excel, columns, bom: values.bom }, outputDir);
+      return;
+    }
+    case 'alerts': {
+      const alertsConfig = await loadAlertsConfig(values.alerts);
+      if (!alertsConfig) throw new Error(`Alerts config not found: ${values.alerts ?? DEFAULT_ALERTS_CONFIG_PATH}`);
+      const { runs } = await loadHistory(outputDir);
+      if (runs.length === 0) throw new Error(`No runs recorded in ${path.join(outputDir, HISTORY_FILENAME)} yet.`);
+      const previous = runs.length > 1 ? runs[runs.length - 2] : null;
+      await runAlerts(alertsConfig, runs[runs.length - 1], previous, { outputDir, dryRun: values['dry-run'] });
+      return;
+    }
+    case 'replay': {
+      if (!values.recording) throw new Error('replay needs --recording <dir>');
+      const recordingDir = path.resolve(values.recording);
+      const { records } = await withPage(
+        { headless: !values.headed, setupContext: (context) => openReplay(context, recordingDir) },
+        (page) => replayRecording(page, recordingDir, { productUrls: values.url, concurrency: options.concurrency }),
+      );
+      process.stdout.write(`Replayed ${records.length} product(s) from ${recordingDir}\n`);
+      return;
+    }
+    case 'changes': {
+      const changes = diffLatest(await loadHistory(outputDir));
+      if (!changes) throw new Error(`No runs recorded in ${path.join(outputDir, HISTORY_FILENAME)} yet.`);
+      process.stdout.write(`${changes.previousRunId ?? '(first run)'} -> ${changes.currentRunId}: ${summarizeDiff(changes)}\n`);
+      process.stdout.write(`${JSON.stringify(changes, null, 2)}\n`);
+      await writeChangeReport(changes, outputDir);
+      return;
+    }
+    case 'serve': {
+      const configPath = values.config;
+      await startServer({
+        port: parseIntFlag('port', values.port, 0),
+        host: values.host,
+        outputDir,
+        runScrape: async () => {
+          const config = await loadConfig(configPath);
+          return withPage({ headless: !values.headed }, (page) => scrape(page, config, options));
+        },
+      });
+      // Keeps running until the process is stopped.
+      return;
+    }
+    case 'metrics': {
+      process.stdout.write(renderMetricsSummary(await loadMetricsHistory(outputDir)));
+      return;
+    }
+    default:
+      throw new Error(`Unknown command "${command}".\n\n${USAGE}`);
+  }
+}
+
+if (require.main === module) {
+  dotenv.config();
+  main().catch((err) => {
+    logger.error(err instanceof Error ? err.message : String(err), { event: 'fatal' });
+    process.exitCode = 1;
+  });
+}
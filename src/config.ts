@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { getExporter, selectColumns } from './exporters';
+import type { ScrapeConfig, SiteConfig, TargetConfig } from './types';
+
+export const DEFAULT_CONFIG_PATH = 'scrape.config.json';
+
+export async function loadConfig(filePath: string = process.env.SCRAPE_CONFIG || DEFAULT_CONFIG_PATH): Promise<ScrapeConfig> {
+  const resolved = path.resolve(filePath);
+  const config = JSON.parse(await fs.readFile(resolved, 'utf8')) as ScrapeConfig;
+  if (!config.sites || !Array.isArray(config.targets) || config.targets.length === 0) {
+    throw new Error(`${resolved}: expected "sites" and a non-empty "targets" list.`);
+  }
+  const seen = new Set<string>();
+  for (const target of config.targets) {
+    if (!target.name) throw new Error(`${resolved}: every target needs a "name".`);
+    if (seen.has(target.name)) throw new Error(`${resolved}: duplicate target name "${target.name}".`);
+    seen.add(target.name);
+    if (!config.sites[target.site]) {
+      throw new Error(`${resolved}: target "${target.name}" references unknown site "${target.site}".`);
+    }
+    if (!target.keywords === !target.categoryUrl) {
+      throw new Error(`${resolved}: target "${target.name}" needs exactly one of "keywords" or "categoryUrl".`);
+    }
+  }
+  const staleAfterHours = config.incremental?.staleAfterHours;
+  if (staleAfterHours !== undefined && !(typeof staleAfterHours === 'number' && staleAfterHours >= 0)) {
+    throw new Error(`${resolved}: "incremental.staleAfterHours" must be a number >= 0.`);
+  }
+  const maxRuns = config.history?.maxRuns;
+  if (maxRuns !== undefined && !(Number.isInteger(maxRuns) && maxRuns >= 2)) {
+    throw new Error(`${resolved}: "history.maxRuns" must be an integer >= 2.`);
+  }
+  const maxMetricsRuns = config.metrics?.maxRuns;
+  if (maxMetricsRuns !== undefined && !(Number.isInteger(maxMetricsRuns) && maxMetricsRuns >= 1)) {
+    throw new Error(`${resolved}: "metrics.maxRuns" must be an integer >= 1.`);
+  }
+  for (const exportConfig of config.exports ?? []) {
+    try {
+      getExporter(exportConfig.format);
+      selectColumns(exportConfig.columns);
+    } catch (err) {
+      throw new Error(`${resolved}: invalid "exports" entry: ${(err as Error).message}`);
+    }
+  }
+  return config;
+}
+
+export function selectTargets(config: ScrapeConfig, names?: string[]): TargetConfig[] {
+  if (!names || names.length === 0) return config.targets;
+  const unknown = names.filter((n) => !config.targets.some((t) => t.name === n));
+  if (unknown.length) throw new Error(`Unknown target(s): ${unknown.join(', ')}`);
+  return config.targets.filter((t) => names.includes(t.name));
+}
+
+export function listingUrlForTarget(site: SiteConfig, target: TargetConfig): string {
+  if (target.categoryUrl) return new URL(target.categoryUrl, site.baseUrl).toString();
+  const url = new URL('/search', site.baseUrl);
+  url.searchParams.set('order', 'relevance:desc');
+  url.searchParams.set('keywords', target.keywords as string);
+  return url.toString();
+}
@@ -0,0 +1,177 @@
+// Single-page dashboard served at / by the local server; it only talks to the /api endpoints.
+const DASHBOARD_SCRIPT = `
+const $ = (selector) => document.querySelector(selector);
+const money = (n) => (n === null || n === undefined ? '' : '$' + Number(n).toFixed(2));
+
+function cell(row, text) {
+  const td = document.createElement('td');
+  td.textContent = text === null || text === undefined ? '' : String(text);
+  row.appendChild(td);
+  return td;
+}
+
+async function getJson(url, init) {
+  const response = await fetch(url, init);
+  const body = await response.json();
+  if (!response.ok) throw new Error(body.error || response.statusText);
+  return body;
+}
+
+async function loadProducts() {
+  const params = new URLSearchParams({ q: $('#q').value, limit: '500' });
+  const { total, items } = await getJson('/api/products?' + params);
+  $('#count').textContent = total + ' product(s)' + (total > items.length ? ', showing ' + items.length : '');
+  const tbody = $('#products tbody');
+  tbody.replaceChildren();
+  for (const rec of items) {
+    const row = document.createElement('tr');
+    cell(row, rec.sku);
+    cell(row, rec.productName);
+    cell(row, rec.price);
+    cell(row, rec.stock);
+    cell(row, rec.target);
+    if (rec.sku) row.addEventListener('click', () => showProduct(rec.sku));
+    tbody.appendChild(row);
+  }
+}
+
+function drawChart(points) {
+  const svg = $('#chart');
+  svg.replaceChildren();
+  const priced = points.filter((p) => p.price !== null);
+  const ns = 'http://www.w3.org/2000/svg';
+  const text = (x, y, value, anchor) => {
+    const el = document.createElementNS(ns, 'text');
+    el.setAttribute('x', x);
+    el.setAttribute('y', y);
+    el.setAttribute('text-anchor', anchor || 'start');
+    el.textContent = value;
+    svg.appendChild(el);
+  };
+  if (priced.length === 0) {
+    text(20, 30, 'No recorded prices yet.');
+    return;
+  }
+  const width = 640, height = 220, pad = 50;
+  const prices = priced.map((p) => p.price);
+  const min = Math.min(...prices), max = Math.max(...prices);
+  const span = max - min || 1;
+  const x = (i) => pad + (priced.length === 1 ? (width - 2 * pad) / 2 : (i * (width - 2 * pad)) / (priced.length - 1));
+  const y = (price) => height - pad + 20 - ((price - min) / span) * (height - 2 * pad);
+  const line = document.createElementNS(ns, 'polyline');
+  line.setAttribute('points', priced.map((p, i) => x(i) + ',' + y(p.price)).join(' '));
+  line.setAttribute('fill', 'none');
+  line.setAttribute('stroke', '#2a6fdb');
+  line.setAttribute('stroke-width', '2');
+  svg.appendChild(line);
+  priced.forEach((p, i) => {
+    const dot = document.createElementNS(ns, 'circle');
+    dot.setAttribute('cx', x(i));
+    dot.setAttribute('cy', y(p.price));
+    dot.setAttribute('r', '3');
+    dot.setAttribute('fill', '#2a6fdb');
+    const title = document.createElementNS(ns, 'title');
+    title.textContent = p.recordedAt.slice(0, 16).replace('T', ' ') + '  ' + money(p.price);
+    dot.appendChild(title);
+    svg.appendChild(dot);
+  });
+  text(pad - 6, y(max) + 4, money(max), 'end');
+  if (min !== max) text(pad - 6, y(min) + 4, money(min), 'end');
+  text(x(0), height - 8, priced[0].recordedAt.slice(0, 10));
+  if (priced.length > 1) text(x(priced.length - 1), height - 8, priced[priced.length - 1].recordedAt.slice(0, 10), 'end');
+}
+
+async function showProduct(sku) {
+  const { records, history } = await getJson('/api/products/' + encodeURIComponent(sku));
+  const rec = records[0];
+  $('#detail').hidden = false;
+  $('#detail-title').textContent = rec.sku + ' - ' + (rec.productName || '');
+  const link = $('#detail-link');
+  link.href = rec.productUrl;
+  link.textContent = rec.productUrl;
+  drawChart(history);
+}
+
+async function loadRuns() {
+  const runs = await getJson('/api/runs');
+  const tbody = $('#runs tbody');
+  tbody.replaceChildren();
+  for (const run of runs.slice(0, 20)) {
+    const row = document.createElement('tr');
+    cell(row, run.recordedAt.slice(0, 16).replace('T', ' '));
+    cell(row, run.targets.join(', '));
+    cell(row, run.products);
+    cell(row, run.failedUrls);
+    tbody.appendChild(row);
+  }
+}
+
+// Reloads the tables once a scrape this page watched has finished; the first load fetches them itself.
+async function refreshScrapeStatus(reloadWhenDone) {
+  const status = await getJson('/api/scrape');
+  $('#scrape').disabled = status.running;
+  $('#scrape-status').textContent = status.running
+    ? 'Scrape running since ' + status.startedAt
+    : status.error
+      ? 'Last scrape failed: ' + status.error
+      : status.finishedAt
+        ? 'Last scrape finished ' + status.finishedAt + ' with ' + status.products + ' product(s)'
+        : '';
+  if (status.running) setTimeout(() => refreshScrapeStatus(true).catch(showError), 5000);
+  else if (reloadWhenDone && status.finishedAt) await Promise.all([loadProducts(), loadRuns()]);
+}
+
+$('#q').addEventListener('input', () => loadProducts().catch(showError));
+$('#scrape').addEventListener('click', () =>
+  getJson('/api/scrape', { method: 'POST', headers: { 'content-type': 'application/json' }, body: '{}' })
+    .then(() => refreshScrapeStatus(true))
+    .catch(showError),
+);
+function showError(err) {
+  $('#error').textContent = err.message;
+}
+Promise.all([loadProducts(), loadRuns(), refreshScrapeStatus(false)]).catch(showError);
+`;
+
+export function renderDashboard(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Product catalog</title>
+<style>
+body { font-family: sans-serif; margin: 2rem; }
+table { border-collapse: collapse; margin-bottom: 1rem; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+th { background: #f0f0f0; }
+#products tbody tr { cursor: pointer; }
+#products tbody tr:hover { background: #f7f9ff; }
+#chart { border: 1px solid #ccc; font-size: 11px; }
+#error { color: #9c0006; }
+</style>
+</head>
+<body>
+<h1>Product catalog</h1>
+<p><button id="scrape">Start scrape</button> <span id="scrape-status"></span></p>
+<p id="error"></p>
+<section id="detail" hidden>
+<h2 id="detail-title"></h2>
+<p><a id="detail-link" target="_blank" rel="noopener"></a></p>
+<svg id="chart" width="640" height="220" viewBox="0 0 640 220"></svg>
+</section>
+<h2>Products</h2>
+<p><input id="q" type="search" placeholder="Search name, SKU, MPN, manufacturer" size="40"> <span id="count"></span></p>
+<table id="products">
+<thead><tr><th>SKU</th><th>Item Name</th><th>Price</th><th>Stock</th><th>Target</th></tr></thead>
+<tbody></tbody>
+</table>
+<h2>Recent runs</h2>
+<table id="runs">
+<thead><tr><th>Recorded</th><th>Targets</th><th>Products</th><th>Failed URLs</th></tr></thead>
+<tbody></tbody>
+</table>
+<script>${DASHBOARD_SCRIPT}</script>
+</body>
+</html>
+`;
+}
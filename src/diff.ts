@@ -0,0 +1,106 @@
+import { snapshotStockStatus } from './history';
+import type { HistoryRun, HistoryStore, ProductSnapshot } from './history';
+import type { StockStatus } from './types';
+
+export type ProductRef = {
+  key: string;
+  sku: string | null;
+  productName: string | null;
+  productUrl: string;
+};
+
+export type PriceChange = ProductRef & {
+  previousPrice: number;
+  currentPrice: number;
+  // Relative change in percent, rounded to two decimals; positive for increases.
+  deltaPercent: number;
+};
+
+export type StockChange = ProductRef & {
+  previousStock: number | null;
+  currentStock: number | null;
+  previousStatus: StockStatus;
+  currentStatus: StockStatus;
+};
+
+export type RunDiff = {
+  previousRunId: string | null;
+  currentRunId: string;
+  newProducts: ProductRef[];
+  removedProducts: ProductRef[];
+  priceChanges: PriceChange[];
+  stockOuts: StockChange[];
+  restocks: StockChange[];
+  // Products whose image content changed; only compared when both runs downloaded assets.
+  imageChanges: ProductRef[];
+};
+
+function ref(key: string, p: ProductSnapshot): ProductRef {
+  return { key, sku: p.sku, productName: p.productName, productUrl: p.productUrl };
+}
+
+// Backordered products cannot ship now, so they count as out of stock; unknown stock is never a change.
+function inStock(status: StockStatus): boolean | null {
+  if (status === 'unknown') return null;
+  return status === 'in_stock';
+}
+
+export function diffRuns(previous: HistoryRun | null, current: HistoryRun): RunDiff {
+  const diff: RunDiff = {
+    previousRunId: previous?.runId ?? null,
+    currentRunId: current.runId,
+    newProducts: [],
+    removedProducts: [],
+    priceChanges: [],
+    stockOuts: [],
+    restocks: [],
+    imageChanges: [],
+  };
+  const before = previous?.products ?? {};
+  const failed = new Set(current.failedUrls);
+
+  for (const [key, now] of Object.entries(current.products)) {
+    const was = before[key];
+    if (!was) {
+      // On the very first run everything would be "new"; there is nothing to compare against.
+      if (previous) diff.newProducts.push(ref(key, now));
+      continue;
+    }
+    if (was.price !== null && now.price !== null && was.price !== now.price) {
+      const deltaPercent = was.price === 0 ? 100 : Math.round(((now.price - was.price) / was.price) * 10000) / 100;
+      diff.priceChanges.push({ ...ref(key, now), previousPrice: was.price, currentPrice: now.price, deltaPercent });
+    }
+    const [previousStatus, currentStatus] = [snapshotStockStatus(was), snapshotStockStatus(now)];
+    const [wasInStock, isInStock] = [inStock(previousStatus), inStock(currentStatus)];
+    const stockChange = { ...ref(key, now), previousStock: was.stock, currentStock: now.stock, previousStatus, currentStatus };
+    if (wasInStock === true && isInStock === false) diff.stockOuts.push(stockChange);
+    else if (wasInStock === false && isInStock === true) diff.restocks.push(stockChange);
+    if (was.imageHashes?.length && now.imageHashes?.length && was.imageHashes.join() !== now.imageHashes.join()) {
+      diff.imageChanges.push(ref(key, now));
+    }
+  }
+  for (const [key, was] of Object.entries(before)) {
+    if (current.products[key] || failed.has(was.productUrl) || (was.collectedUrl && failed.has(was.collectedUrl))) continue;
+    if (!was.targets.some((t) => current.targets.includes(t))) continue;
+    diff.removedProducts.push(ref(key, was));
+  }
+  return diff;
+}
+
+// Compares the most recent run in the store with the one before it.
+export function diffLatest(history: HistoryStore): RunDiff | null {
+  const { runs } = history;
+  if (runs.length === 0) return null;
+  return diffRuns(runs.length > 1 ? runs[runs.length - 2] : null, runs[runs.length - 1]);
+}
+
+export function summarizeDiff(diff: RunDiff): string {
+  return [
+    `${diff.newProducts.length} new`,
+    `${diff.removedProducts.length} removed`,
+    `${diff.priceChanges.length} price changes`,
+    `${diff.stockOuts.length} stock-outs`,
+    `${diff.restocks.length} restocks`,
+    `${diff.imageChanges.length} image changes`,
+  ].join(', ');
+}
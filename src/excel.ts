@@ -0,0 +1,377 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { productKey } from './history';
+import { logger } from './logger';
+import { DEFAULT_OUTPUT_DIR, ensureOutputDir } from './output';
+import { parsePriceToNumber, parseStockToNumber } from './parse';
+import { CHANGES_SHEET } from './report';
+import type { ProductRecord, WorkbookRetention } from './types';
+
+export type ColumnDef = { header: string; key: string; width: number };
+
+// Canonical columns definition (order + keys); keys match ProductRecord fields where there is one.
+export const columnDefs: ColumnDef[] = [
+  { header: 'DATE', key: 'scrapedAt', width: 20 },
+  { header: 'Item Name', key: 'productName', width: 50 },
+  { header: 'SKU', key: 'sku', width: 30 },
+  { header: 'DESCRIPTION', key: 'description', width: 80 },
+  { header: 'MPN', key: 'mpn', width: 30 },
+  { header: 'MANUFACTURER', key: 'manufacturer', width: 30 },
+  { header: 'PRICE', key: 'price', width: 15 },
+  { header: 'STOCK', key: 'stock', width: 15 },
+  { header: 'PRODUCT URL', key: 'productUrl', width: 80 },
+  { header: 'TARGET', key: 'target', width: 20 },
+  // Only filled on price comparison runs.
+  { header: 'GUEST PRICE', key: 'guestPrice', width: 15 },
+  { header: 'ACCOUNT PRICE', key: 'accountPrice', width: 15 },
+  { header: 'DISCOUNT', key: 'discount', width: 15 },
+  { header: 'DISCOUNT %', key: 'discountPercent', width: 12 },
+];
+
+export const CURRENT_SHEET = 'Current';
+// Excel reserves the sheet name "History".
+export const HISTORY_SHEET = 'Price History';
+export const RUNS_SHEET = 'Runs';
+// Append-only sheet of the previous layout; its rows are migrated into the history sheet on the first write.
+const LEGACY_SHEET = 'Products';
+export const ARCHIVE_DIRNAME = 'archive';
+
+// Excel dates carry no time zone; cells hold the wall-clock time the team reads.
+export const EXCEL_TIME_ZONE = 'America/Los_Angeles';
+
+export const DEFAULT_WORKBOOK_RETENTION: Required<WorkbookRetention> = {
+  historyRuns: 30,
+  archiveMaxRows: 100_000,
+  archiveMaxFiles: 10,
+};
+
+// Current sheet: the canonical columns plus the change against the previous write, next to PRICE.
+const currentColumns: ColumnDef[] = columnDefs.flatMap((c) =>
+  c.key === 'price'
+    ? [c, { header: 'PREVIOUS PRICE', key: 'previousPrice', width: 15 }, { header: 'PRICE CHANGE', key: 'priceChange', width: 15 }]
+    : [c],
+);
+
+const historyColumns: ColumnDef[] = [
+  { header: 'RUN ID', key: 'runId', width: 26 },
+  { header: 'DATE', key: 'scrapedAt', width: 20 },
+  { header: 'SKU', key: 'sku', width: 30 },
+  { header: 'Item Name', key: 'productName', width: 50 },
+  { header: 'PRICE', key: 'price', width: 15 },
+  { header: 'STOCK', key: 'stock', width: 15 },
+  { header: 'PRODUCT URL', key: 'productUrl', width: 80 },
+  { header: 'TARGET', key: 'target', width: 20 },
+];
+
+const runsColumns: ColumnDef[] = [
+  { header: 'RUN ID', key: 'runId', width: 26 },
+  { header: 'DATE', key: 'recordedAt', width: 20 },
+  { header: 'TARGETS', key: 'targets', width: 30 },
+  { header: 'PRODUCTS', key: 'products', width: 12 },
+  { header: 'FAILURES', key: 'failures', width: 12 },
+  { header: 'QUALITY SCORE', key: 'qualityScore', width: 15 },
+];
+
+const PRICE_FORMAT = '$#,##0.00';
+const DATE_FORMAT = 'yyyy-mm-dd hh:mm';
+
+// What the Runs sheet records about the write; everything defaults to a standalone export at write time.
+export type WorkbookRun = {
+  runId?: string;
+  targets?: string[];
+  failures?: number;
+  qualityScore?: number | null;
+};
+
+// ExcelJS writes Date values as UTC serials, so shift the instant to its wall-clock time in EXCEL_TIME_ZONE.
+export function toExcelDate(date: Date, timeZone: string = EXCEL_TIME_ZONE): Date {
+  const parts: Record<string, string> = {};
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  });
+  for (const part of formatter.formatToParts(date)) parts[part.type] = part.value;
+  return new Date(Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second));
+}
+
+function numberOrText(parsed: number | null, raw: string | null): number | string | null {
+  return parsed ?? raw ?? null;
+}
+
+export type ColumnValue = string | number | null;
+
+// A record's value for every canonical column; shared by the workbook and the other exporters.
+export function recordValues(rec: ProductRecord, fallbackDate?: Date): Record<string, ColumnValue> {
+  const comparison = rec.priceComparison;
+  return {
+    scrapedAt: rec.scrapedAt ?? fallbackDate?.toISOString() ?? null,
+    productName: rec.productName ?? null,
+    sku: rec.sku ?? null,
+    description: rec.description ?? null,
+    mpn: rec.mpn ?? null,
+    manufacturer: rec.manufacturer ?? null,
+    price: numberOrText(parsePriceToNumber(rec.price), rec.price),
+    stock: numberOrText(parseStockToNumber(rec.stock), rec.stock),
+    productUrl: rec.productUrl ?? null,
+    target: rec.target ?? null,
+    guestPrice: comparison ? parsePriceToNumber(comparison.guestPrice) : null,
+    accountPrice: comparison ? parsePriceToNumber(comparison.accountPrice) : null,
+    discount: comparison?.discountCents != null ? comparison.discountCents / 100 : null,
+    discountPercent: comparison?.discountPercent ?? null,
+  };
+}
+
+function recordRow(rec: ProductRecord, fallbackDate: Date): Record<string, unknown> {
+  const values = recordValues(rec, fallbackDate);
+  return {
+    ...values,
+    scrapedAt: toExcelDate(new Date(values.scrapedAt as string)),
+    // Stored as a fraction like the Changes sheet's DELTA %.
+    discountPercent: values.discountPercent !== null ? (values.discountPercent as number) / 100 : null,
+  };
+}
+
+function columnIndex(columns: ColumnDef[], key: string): number {
+  return columns.findIndex((c) => c.key === key) + 1;
+}
+
+// Data rows of a sheet as 0-based arrays in column order.
+function readRows(sheet: ExcelJS.Worksheet | undefined): unknown[][] {
+  const rows: unknown[][] = [];
+  sheet?.eachRow((row, rowNumber) => {
+    if (rowNumber > 1) rows.push((row.values as unknown[]).slice(1));
+  });
+  return rows;
+}
+
+// exceljs cannot move a worksheet between workbooks; values, styles, widths and views are copied instead.
+function copySheet(source: ExcelJS.Worksheet, workbook: ExcelJS.Workbook): void {
+  const sheet = workbook.addWorksheet(source.name, { views: source.views });
+  source.columns?.forEach((column, i) => {
+    sheet.getColumn(i + 1).width = column.width;
+  });
+  source.eachRow((row, rowNumber) => {
+    row.eachCell((cell, columnNumber) => {
+      const copy = sheet.getRow(rowNumber).getCell(columnNumber);
+      copy.value = cell.value;
+      copy.style = cell.style;
+    });
+  });
+}
+
+function addSheet(workbook: ExcelJS.Workbook, name: string, columns: ColumnDef[]): ExcelJS.Worksheet {
+  const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = columns;
+  return sheet;
+}
+
+// Legacy rows carried DATE (MM/DD/YYYY) and TIME strings in Pacific time; each distinct pair becomes a run.
+function migrateLegacyRows(sheet: ExcelJS.Worksheet): unknown[][] {
+  const header = (sheet.getRow(1).values as unknown[]).slice(1).map(String);
+  const at = (name: string) => header.indexOf(name);
+  return readRows(sheet).map((row) => {
+    const date = String(row[at('DATE')] ?? '');
+    const time = String(row[at('TIME')] ?? '');
+    const [month, day, year] = date.split('/').map(Number);
+    const clock = time.match(/(\d{1,2}):(\d{2})\s*([AP]M)/i);
+    const hour = clock ? (Number(clock[1]) % 12) + (/p/i.test(clock[3]) ? 12 : 0) : 0;
+    const scrapedAt = year ? new Date(Date.UTC(year, month - 1, day, hour, clock ? Number(clock[2]) : 0)) : null;
+    return [
+      `legacy ${date} ${time}`.trim(),
+      scrapedAt,
+      row[at('SKU')] ?? null,
+      row[at('Item Name')] ?? null,
+      row[at('PRICE')] ?? null,
+      row[at('STOCK')] ?? null,
+      row[at('PRODUCT URL')] ?? null,
+      row[at('TARGET')] ?? null,
+    ];
+  });
+}
+
+function archiveFilename(base: string, index: number): string {
+  return `${base}_history_${String(index).padStart(3, '0')}.xlsx`;
+}
+
+// Appends history rows of runs that fell out of the workbook to <outputDir>/archive/<base>_history_NNN.xlsx,
+// starting a new file when the current one would exceed archiveMaxRows and deleting the oldest files beyond
+// archiveMaxFiles.
+async function archiveHistoryRows(
+  rows: unknown[][],
+  excelFilename: string,
+  outputDir: string,
+  retention: Required<WorkbookRetention>,
+): Promise<void> {
+  if (rows.length === 0) return;
+  const archiveDir = path.join(outputDir, ARCHIVE_DIRNAME);
+  await fs.mkdir(archiveDir, { recursive: true });
+  const base = path.parse(excelFilename).name;
+  const pattern = new RegExp(`^${base.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}_history_(\\d+)\\.xlsx$`);
+  const indexes = (await fs.readdir(archiveDir))
+    .map((f) => f.match(pattern)?.[1])
+    .filter((m): m is string => !!m)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  let index = indexes.length ? indexes[indexes.length - 1] : 1;
+  let remaining = rows;
+  while (remaining.length) {
+    const filePath = path.join(archiveDir, archiveFilename(base, index));
+    const workbook = new ExcelJS.Workbook();
+    let sheet: ExcelJS.Worksheet;
+    try {
+      await workbook.xlsx.readFile(filePath);
+      sheet = workbook.getWorksheet(HISTORY_SHEET) ?? addSheet(workbook, HISTORY_SHEET, historyColumns);
+      sheet.columns = historyColumns;
+    } catch {
+      sheet = addSheet(workbook, HISTORY_SHEET, historyColumns);
+    }
+    const room = retention.archiveMaxRows - (sheet.rowCount - 1);
+    if (room <= 0) {
+      index += 1;
+      continue;
+    }
+    sheet.addRows(remaining.slice(0, room));
+    sheet.getColumn('scrapedAt').numFmt = DATE_FORMAT;
+    await workbook.xlsx.writeFile(filePath);
+    if (!indexes.includes(index)) indexes.push(index);
+    remaining = remaining.slice(room);
+  }
+
+  for (const old of indexes.slice(0, Math.max(0, indexes.length - retention.archiveMaxFiles))) {
+    await fs.rm(path.join(archiveDir, archiveFilename(base, old)), { force: true });
+  }
+  logger.info(`Archived ${rows.length} history row(s) of ${excelFilename} to ${archiveDir}`);
+}
+
+// Rewrites the workbook with a Current sheet (one row per product), a price history sheet (one row per product and
+// run, bounded to the last historyRuns runs; older rows move to the archive) and a Runs sheet.
+export async function writeExcel(
+  records: ProductRecord[],
+  excelFilename: string,
+  outputDir: string = DEFAULT_OUTPUT_DIR,
+  run: WorkbookRun = {},
+  retentionOverrides: WorkbookRetention = {},
+): Promise<string> {
+  await ensureOutputDir(outputDir);
+  const filePath = path.join(outputDir, excelFilename);
+  const retention = { ...DEFAULT_WORKBOOK_RETENTION, ...retentionOverrides };
+  const now = new Date();
+  const runId = run.runId ?? now.toISOString();
+
+  // Carry History/Runs over from the existing workbook and remember last write's prices for PRICE CHANGE.
+  const previous = new ExcelJS.Workbook();
+  try {
+    await fs.stat(filePath);
+    await previous.xlsx.readFile(filePath);
+  } catch {
+    // no existing file; will create new
+  }
+  const previousPrices = new Map<string, number>();
+  for (const row of readRows(previous.getWorksheet(CURRENT_SHEET))) {
+    const sku = row[columnIndex(currentColumns, 'sku') - 1];
+    const productUrl = row[columnIndex(currentColumns, 'productUrl') - 1];
+    const price = row[columnIndex(currentColumns, 'price') - 1];
+    if (typeof price === 'number') {
+      previousPrices.set(productKey({ sku: sku ? String(sku) : null, productUrl: String(productUrl ?? '') }), price);
+    }
+  }
+  const legacy = previous.getWorksheet(LEGACY_SHEET);
+  let historyRows = [...(legacy ? migrateLegacyRows(legacy) : []), ...readRows(previous.getWorksheet(HISTORY_SHEET))];
+  const runRows = readRows(previous.getWorksheet(RUNS_SHEET));
+
+  const workbook = new ExcelJS.Workbook();
+  const current = addSheet(workbook, CURRENT_SHEET, currentColumns);
+  const rowsByKey = new Map<string, Record<string, unknown>>();
+  for (const rec of records) {
+    const key = productKey(rec);
+    const existing = rowsByKey.get(key);
+    if (existing) {
+      // A product listed by several targets gets one row naming all of them.
+      const targets = String(existing.target).split(', ');
+      if (!targets.includes(rec.target)) existing.target = [...targets, rec.target].join(', ');
+      continue;
+    }
+    const row = recordRow(rec, now);
+    const previousPrice = previousPrices.get(key) ?? null;
+    row.previousPrice = previousPrice;
+    row.priceChange = typeof row.price === 'number' && previousPrice !== null ? Math.round((row.price - previousPrice) * 100) / 100 : null;
+    rowsByKey.set(key, row);
+  }
+  current.addRows(Array.from(rowsByKey.values()));
+  current.getColumn('scrapedAt').numFmt = DATE_FORMAT;
+  for (const key of ['price', 'previousPrice', 'priceChange', 'guestPrice', 'accountPrice', 'discount']) {
+    current.getColumn(key).numFmt = PRICE_FORMAT;
+  }
+  current.getColumn('discountPercent').numFmt = '0.00%';
+  const lastColumn = current.getColumn(currentColumns.length).letter;
+  current.autoFilter = `A1:${lastColumn}1`;
+  const change = current.getColumn('priceChange').letter;
+  current.addConditionalFormatting({
+    ref: `${change}2:${change}${Math.max(2, current.rowCount)}`,
+    rules: [
+      {
+        type: 'cellIs',
+        operator: 'greaterThan',
+        formulae: ['0'],
+        priority: 1,
+        style: { font: { color: { argb: 'FF9C0006' } }, fill: { type: 'pattern', pattern: 'solid', bgColor: { argb: 'FFFFC7CE' } } },
+      },
+      {
+        type: 'cellIs',
+        operator: 'lessThan',
+        formulae: ['0'],
+        priority: 2,
+        style: { font: { color: { argb: 'FF006100' } }, fill: { type: 'pattern', pattern: 'solid', bgColor: { argb: 'FFC6EFCE' } } },
+      },
+    ],
+  });
+
+  for (const rec of records) {
+    const row = recordRow(rec, now);
+    historyRows.push(historyColumns.map((c) => (c.key === 'runId' ? runId : row[c.key])));
+  }
+  // Rows are appended chronologically, so the runs to archive are the first ones seen.
+  const runIds = Array.from(new Set(historyRows.map((r) => String(r[0]))));
+  const archivedRuns = new Set(runIds.slice(0, Math.max(0, runIds.length - retention.historyRuns)));
+  await archiveHistoryRows(
+    historyRows.filter((r) => archivedRuns.has(String(r[0]))),
+    excelFilename,
+    outputDir,
+    retention,
+  );
+  historyRows = historyRows.filter((r) => !archivedRuns.has(String(r[0])));
+  const history = addSheet(workbook, HISTORY_SHEET, historyColumns);
+  history.addRows(historyRows);
+  history.getColumn('scrapedAt').numFmt = DATE_FORMAT;
+  history.getColumn('price').numFmt = PRICE_FORMAT;
+  history.autoFilter = `A1:${history.getColumn(historyColumns.length).letter}1`;
+
+  const runs = addSheet(workbook, RUNS_SHEET, runsColumns);
+  runs.addRows(runRows);
+  runs.addRow({
+    runId,
+    recordedAt: toExcelDate(now),
+    targets: (run.targets ?? Array.from(new Set(records.map((r) => r.target)))).join(', '),
+    products: rowsByKey.size,
+    failures: run.failures ?? null,
+    qualityScore: run.qualityScore ?? null,
+  });
+  runs.getColumn('recordedAt').numFmt = DATE_FORMAT;
+
+  // The history phase rewrites the Changes sheet after this; runs that skip it keep the last recorded changes,
+  // like changes_latest.json.
+  const changes = previous.getWorksheet(CHANGES_SHEET);
+  if (changes) copySheet(changes, workbook);
+
+  await workbook.xlsx.writeFile(filePath);
+  logger.info(`Excel written: ${filePath}`);
+  return filePath;
+}
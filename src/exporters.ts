@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { columnDefs, recordValues, writeExcel } from './excel';
+import type { ColumnDef, ColumnValue } from './excel';
+import { logger } from './logger';
+import { DEFAULT_OUTPUT_DIR, ensureOutputDir } from './output';
+import type { ExportConfig, ProductRecord } from './types';
+
+export type ExportOptions = {
+  // columnDefs keys to write, in this order; every canonical column when omitted.
+  columns?: string[];
+  // Prefix the file with a UTF-8 byte order mark (CSV only) so Excel detects the encoding.
+  bom?: boolean;
+};
+
+export type Exporter = {
+  format: string;
+  extension: string;
+  write: (records: ProductRecord[], filePath: string, options: ExportOptions) => Promise<void>;
+};
+
+// Picks the requested canonical columns; unknown keys are a config error rather than an empty column.
+export function selectColumns(keys?: string[]): ColumnDef[] {
+  if (!keys || keys.length === 0) return columnDefs;
+  const unknown = keys.filter((k) => !columnDefs.some((c) => c.key === k));
+  if (unknown.length) {
+    throw new Error(`Unknown export column(s): ${unknown.join(', ')}. Known: ${columnDefs.map((c) => c.key).join(', ')}`);
+  }
+  return keys.map((k) => columnDefs.find((c) => c.key === k) as ColumnDef);
+}
+
+// RFC 4180 field: quoted when it holds a delimiter, quote, line break or edge whitespace; line breaks become \n.
+export function csvField(value: ColumnValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value).replace(/\r\n?/g, '\n');
+  return /[",\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(records: ProductRecord[], columns: ColumnDef[]): string {
+  const lines = [columns.map((c) => csvField(c.header)).join(',')];
+  for (const rec of records) {
+    const values = recordValues(rec);
+    lines.push(columns.map((c) => csvField(values[c.key])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+// One JSON object per record keyed by column key, in column order.
+export function toNdjson(records: ProductRecord[], columns: ColumnDef[]): string {
+  return records
+    .map((rec) => {
+      const values = recordValues(rec);
+      return `${JSON.stringify(Object.fromEntries(columns.map((c) => [c.key, values[c.key] ?? null])))}\n`;
+    })
+    .join('');
+}
+
+const exporters: Record<string, Exporter> = {
+  csv: {
+    format: 'csv',
+    extension: '.csv',
+    write: async (records, filePath, options) => {
+      const body = toCsv(records, selectColumns(options.columns));
+      await fs.writeFile(filePath, options.bom ? `\uFEFF${body}` : body, 'utf8');
+    },
+  },
+  ndjson: {
+    format: 'ndjson',
+    extension: '.ndjson',
+    write: async (records, filePath, options) => {
+      await fs.writeFile(filePath, toNdjson(records, selectColumns(options.columns)), 'utf8');
+    },
+  },
+  // The workbook layout is fixed, so column selection does not apply.
+  xlsx: {
+    format: 'xlsx',
+    extension: '.xlsx',
+    write: async (records, filePath) => {
+      await writeExcel(records, path.basename(filePath), path.dirname(filePath));
+    },
+  },
+};
+
+// Lets other tooling plug in extra output formats under a config "format".
+export function registerExporter(exporter: Exporter): void {
+  exporters[exporter.format] = exporter;
+}
+
+export function getExporter(format: string): Exporter {
+  const exporter = exporters[format];
+  if (!exporter) throw new Error(`Unknown export format "${format}". Known: ${Object.keys(exporters).join(', ')}`);
+  return exporter;
+}
+
+// Writes records in the given format; the filename defaults to <basename><extension>.
+export async function exportRecords(
+  records: ProductRecord[],
+  config: ExportConfig,
+  outputDir: string = DEFAULT_OUTPUT_DIR,
+  basename = 'products_all',
+): Promise<string> {
+  const exporter = getExporter(config.format);
+  await ensureOutputDir(outputDir);
+  const filePath = path.join(outputDir, config.filename ?? `${basename}${exporter.extension}`);
+  await exporter.write(records, filePath, { columns: config.columns, bom: config.bom });
+  if (exporter.format !== 'xlsx') {
+    logger.info(`${exporter.format.toUpperCase()} written: ${filePath}`);
+  }
+  return filePath;
+}
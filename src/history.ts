@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { imageHashes } from './assets';
+import { parsePriceToNumber } from './parse';
+import { DEFAULT_OUTPUT_DIR } from './output';
+import type { HistoryRetention, ProductRecord, ScrapeFailure, StockStatus } from './types';
+
+export const HISTORY_FILENAME = 'price_history.json';
+export const DEFAULT_HISTORY_MAX_RUNS = 180;
+
+export type ProductSnapshot = {
+  sku: string | null;
+  productUrl: string;
+  // The URL the product was collected under when a redirect moved it; failures are reported under this one.
+  collectedUrl?: string;
+  productName: string | null;
+  price: number | null;
+  stock: number | null;
+  // Missing in runs recorded before it was stored; read it through snapshotStockStatus().
+  stockStatus?: StockStatus;
+  targets: string[];
+  // Sorted content hashes of the product images; only set when the run downloaded assets.
+  imageHashes?: string[];
+};
+
+export type HistoryRun = {
+  runId: string;
+  recordedAt: string;
+  // Targets scraped in this run; products of other targets are not compared against it.
+  targets: string[];
+  // Products keyed by productKey(); a product listed by several targets is stored once.
+  products: Record<string, ProductSnapshot>;
+  // Collected URLs that could not be scraped this run, so they are not mistaken for delisted products.
+  failedUrls: string[];
+};
+
+export type HistoryStore = {
+  runs: HistoryRun[];
+};
+
+// SKU when the page had one, otherwise the product URL.
+export function productKey(record: Pick<ProductRecord, 'sku' | 'productUrl'>): string {
+  return record.sku ? `sku:${record.sku.trim().toUpperCase()}` : `url:${record.productUrl}`;
+}
+
+// Runs recorded before the status was stored only have the quantity.
+export function snapshotStockStatus(p: ProductSnapshot): StockStatus {
+  if (p.stockStatus) return p.stockStatus;
+  if (p.stock === null) return 'unknown';
+  return p.stock > 0 ? 'in_stock' : 'out_of_stock';
+}
+
+export function snapshotRun(
+  runId: string,
+  targets: string[],
+  records: ProductRecord[],
+  failures: ScrapeFailure[] = [],
+): HistoryRun {
+  const products: Record<string, ProductSnapshot> = {};
+  for (const rec of records) {
+    const key = productKey(rec);
+    const seenTargets = products[key]?.targets ?? [];
+    products[key] = {
+      sku: rec.sku,
+      productUrl: rec.productUrl,
+      collectedUrl: rec.collectedUrl && rec.collectedUrl !== rec.productUrl ? rec.collectedUrl : undefined,
+      productName: rec.productName,
+      price: parsePriceToNumber(rec.price),
+      stock: rec.stockQuantity,
+      stockStatus: rec.stockStatus,
+      targets: seenTargets.includes(rec.target) ? seenTargets : [...seenTargets, rec.target],
+      imageHashes: imageHashes(rec),
+    };
+  }
+  return {
+    runId,
+    recordedAt: new Date().toISOString(),
+    targets,
+    products,
+    failedUrls: failures.map((f) => f.productUrl),
+  };
+}
+
+export async function loadHistory(outputDir: string = DEFAULT_OUTPUT_DIR): Promise<HistoryStore> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(outputDir, HISTORY_FILENAME), 'utf8')) as HistoryStore;
+  } catch {
+    return { runs: [] };
+  }
+}
+
+// Appends the run and drops the oldest runs beyond the retention; at least two are kept for the run-to-run diff.
+export async function appendHistoryRun(
+  run: HistoryRun,
+  outputDir: string = DEFAULT_OUTPUT_DIR,
+  retention: HistoryRetention = {},
+): Promise<HistoryStore> {
+  const history = await loadHistory(outputDir);
+  history.runs.push(run);
+  const maxRuns = Math.max(2, retention.maxRuns ?? DEFAULT_HISTORY_MAX_RUNS);
+  if (history.runs.length > maxRuns) history.runs.splice(0, history.runs.length - maxRuns);
+  await fs.mkdir(outputDir, { recursive: true });
+  await fs.writeFile(path.join(outputDir, HISTORY_FILENAME), JSON.stringify(history, null, 2), 'utf8');
+  return history;
+}
@@ -0,0 +1,78 @@
+import * as path from 'path';
+import { DEFAULT_OUTPUT_DIR, readJson } from './output';
+import type { IncrementalConfig, ProductRecord } from './types';
+
+export const DEFAULT_STALE_AFTER_HOURS = 24;
+
+// What the previous run left behind: the URLs it collected and the records stored per collected URL.
+export type IncrementalBaseline = {
+  previousUrls: Set<string>;
+  records: Map<string, ProductRecord>;
+};
+
+export type IncrementalPlan = {
+  // URLs to visit this run, in collection order.
+  scrape: string[];
+  // Records carried over unchanged for URLs that are neither new nor stale.
+  reuse: Map<string, ProductRecord>;
+  newCount: number;
+  staleCount: number;
+  watchedCount: number;
+};
+
+async function readJsonOr<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return await readJson<T>(filePath);
+  } catch {
+    return fallback;
+  }
+}
+
+// product_urls_all.json gives the previous URL set; the target's own products file gives its stored records,
+// so a run limited to other targets does not make this target's records look missing. Records are keyed by the
+// URL they were collected under, which is what the next run collects again; files from before collectedUrl
+// existed fall back to productUrl.
+export async function loadIncrementalBaseline(
+  productsFilename: string,
+  outputDir: string = DEFAULT_OUTPUT_DIR,
+): Promise<IncrementalBaseline> {
+  const previousUrls = await readJsonOr<string[]>(path.join(outputDir, 'product_urls_all.json'), []);
+  const records = await readJsonOr<ProductRecord[]>(path.join(outputDir, productsFilename), []);
+  return {
+    previousUrls: new Set(previousUrls),
+    records: new Map(records.map((r) => [r.collectedUrl ?? r.productUrl, r])),
+  };
+}
+
+function isWatched(record: ProductRecord, config: IncrementalConfig): boolean {
+  const sku = record.sku?.trim().toUpperCase();
+  return !!sku && (config.watchSkus ?? []).some((s) => s.trim().toUpperCase() === sku);
+}
+
+// New URLs are always scraped; known ones are revisited when watched or when their record is older than the
+// staleness window. Records from before scrapedAt existed count as stale.
+export function planIncremental(
+  productUrls: string[],
+  baseline: IncrementalBaseline,
+  config: IncrementalConfig = {},
+  now: Date = new Date(),
+): IncrementalPlan {
+  const staleAfterMs = (config.staleAfterHours ?? DEFAULT_STALE_AFTER_HOURS) * 60 * 60 * 1000;
+  const plan: IncrementalPlan = { scrape: [], reuse: new Map(), newCount: 0, staleCount: 0, watchedCount: 0 };
+  for (const url of productUrls) {
+    const previous = baseline.records.get(url);
+    if (!previous || !baseline.previousUrls.has(url)) {
+      plan.newCount += 1;
+      plan.scrape.push(url);
+    } else if (isWatched(previous, config)) {
+      plan.watchedCount += 1;
+      plan.scrape.push(url);
+    } else if (!previous.scrapedAt || now.getTime() - Date.parse(previous.scrapedAt) >= staleAfterMs) {
+      plan.staleCount += 1;
+      plan.scrape.push(url);
+    } else {
+      plan.reuse.set(url, previous);
+    }
+  }
+  return plan;
+}
@@ -0,0 +1,146 @@
+export * from './types';
+export { DEFAULT_CONFIG_PATH, listingUrlForTarget, loadConfig, selectTargets } from './config';
+export { DEFAULT_OUTPUT_DIR, ensureOutputDir, readJson, saveJson } from './output';
+export {
+  AuthError,
+  DEFAULT_AUTH_DIR,
+  SessionExpiredError,
+  createSessionGuard,
+  isLoggedIn,
+  login,
+  loginIfNeeded,
+  readLoginState,
+  storageStatePathForSite,
+} from './auth';
+export type { AuthErrorReason, AuthOptions, SessionGuard } from './auth';
+export { MAX_PAGES, collectAllProductUrls, collectProductUrlsForPage, readPagerInfo } from './search';
+export { DEFAULT_CONCURRENCY, DEFAULT_POLITENESS_DELAY_MS, createHostThrottle, mapUrlsWithPages } from './pool';
+export type { PoolOptions } from './pool';
+export {
+  EXTRACTED_FIELDS,
+  extractProductDetails,
+  extractWithRegex,
+  formatPrice,
+  readProductPageSnapshot,
+  resolveProductFields,
+  trimDescription,
+} from './product';
+export type { ProductPageSnapshot } from './product';
+export { asJsonLdNode, jsonLdProducts, jsonLdText, readJsonLdBlocks } from './jsonld';
+export type { JsonLdNode } from './jsonld';
+export {
+  captureItemsApi,
+  fetchAllItems,
+  isItemsApiUrl,
+  itemKeyForUrl,
+  mapItemToRecord,
+  productUrlForItem,
+  recordsFromItemsApi,
+} from './itemsApi';
+export type { ItemsApiCapture, SuiteCommerceItem } from './itemsApi';
+export { DEFAULT_RETRIES, DEFAULT_RETRY_DELAY_MS, RetryError, errorMessage, retryWithBackoff } from './retry';
+export type { RetryOptions } from './retry';
+export { createCheckpointWriter, loadCheckpoint, removeCheckpoint } from './checkpoint';
+export type { TargetCheckpoint } from './checkpoint';
+export {
+  ARCHIVE_DIRNAME,
+  CURRENT_SHEET,
+  DEFAULT_WORKBOOK_RETENTION,
+  EXCEL_TIME_ZONE,
+  HISTORY_SHEET,
+  RUNS_SHEET,
+  columnDefs,
+  recordValues,
+  toExcelDate,
+  writeExcel,
+} from './excel';
+export type { ColumnDef, ColumnValue, WorkbookRun } from './excel';
+export {
+  csvField,
+  exportRecords,
+  getExporter,
+  registerExporter,
+  selectColumns,
+  toCsv,
+  toNdjson,
+} from './exporters';
+export type { ExportOptions, Exporter } from './exporters';
+export { parsePriceToNumber, parseStockToNumber } from './parse';
+export { comparePrices, withPriceComparison } from './pricing';
+export { ASSETS_DIRNAME, downloadAsset, imageHashes, readAssetLinks, withAssets } from './assets';
+export type { AssetLink } from './assets';
+export { DEFAULT_STALE_AFTER_HOURS, loadIncrementalBaseline, planIncremental } from './incremental';
+export type { IncrementalBaseline, IncrementalPlan } from './incremental';
+export { DEFAULT_HISTORY_MAX_RUNS, HISTORY_FILENAME, appendHistoryRun, loadHistory, productKey, snapshotRun } from './history';
+export type { HistoryRun, HistoryStore, ProductSnapshot } from './history';
+export { diffLatest, diffRuns, summarizeDiff } from './diff';
+export type { PriceChange, ProductRef, RunDiff, StockChange } from './diff';
+export {
+  CHANGES_SHEET,
+  changeSections,
+  renderHtmlReport,
+  renderMarkdownReport,
+  writeChangeReport,
+  writeChangesSheet,
+} from './report';
+export {
+  ALERTS_STATE_FILENAME,
+  DEFAULT_ALERTS_CONFIG_PATH,
+  alertId,
+  dedupeAlerts,
+  evaluateAlerts,
+  loadAlertsConfig,
+  loadAlertsState,
+  runAlerts,
+  saveAlertsState,
+  withoutUndelivered,
+} from './alerts';
+export type { Alert, AlertField, AlertOperator, AlertRule, AlertsConfig, AlertsState, RunAlertsOptions } from './alerts';
+export { createNotifier, registerNotifier } from './notifiers';
+export type { Notifier, NotifierConfig, NotifierFactory } from './notifiers';
+export {
+  RECORDINGS_DIRNAME,
+  loadRecordingManifest,
+  openReplay,
+  recordedTarget,
+  recordingDirForRun,
+  replayRecording,
+  startRecording,
+  writeRecordingManifest,
+} from './recording';
+export type { RecordedTarget, RecordingManifest, ReplayOptions, ReplayResult } from './recording';
+export { RECORD_SCHEMA, normalizeRecord, stockStatusOf, validateRecord } from './schema';
+export type { FieldIssue } from './schema';
+export { DEFAULT_QUALITY_THRESHOLDS, DataQualityError, buildQualityReport } from './quality';
+export type { QualityReport } from './quality';
+export { LOG_FORMATS, LOG_LEVELS, configureLogging, createLogger, logger, runWithLogContext } from './logger';
+export type { LogFields, LogFormat, LogLevel, Logger, LoggingOptions } from './logger';
+export {
+  DEFAULT_METRICS_MAX_RUNS,
+  METRICS_HISTORY_FILENAME,
+  RUN_MANIFEST_FILENAME,
+  buildRunManifest,
+  durationStats,
+  formatDuration,
+  loadMetricsHistory,
+  metricsEntry,
+  renderMetricsSummary,
+  scraperVersion,
+  startRunTracker,
+  timePhase,
+  writeRunManifest,
+} from './metrics';
+export type {
+  DurationStats,
+  PhaseDurations,
+  RunManifest,
+  RunMetricsEntry,
+  RunStatus,
+  RunTracker,
+  TargetMetrics,
+} from './metrics';
+export { collectTargetUrls, collectUrls, exportExcel, exportFile, scrape, scrapeTarget, withPage } from './scraper';
+export type { BrowserOptions } from './scraper';
+export { DEFAULT_SERVER_HOST, DEFAULT_SERVER_PORT, createRequestHandler, searchProducts, startServer } from './server';
+export type { PricePoint, RunSummary, ScrapeStatus, ServerOptions } from './server';
+export { renderDashboard } from './dashboard';
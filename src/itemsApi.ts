@@ -0,0 +1,219 @@
+import type { Page, Response } from '@playwright/test';
+import { logger } from './logger';
+import { EXTRACTED_FIELDS, formatPrice, trimDescription } from './product';
+import { errorMessage } from './retry';
+import { normalizeRecord } from './schema';
+import type { ItemApiDetails, MatrixOption, ProductRecord, RawProductRecord, SiteConfig } from './types';
+
+// Loose shape of an item returned by the SuiteCommerce Advanced items API (/api/items, /api/cacheable/items).
+export type SuiteCommerceItem = Record<string, unknown>;
+
+// SCA caps the page size of the items API at 100.
+const ITEMS_API_PAGE_SIZE = 100;
+
+// Item fields are read through these: the API omits or nulls fields freely and their types vary between SCA versions.
+function asObject(value: unknown): SuiteCommerceItem | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as SuiteCommerceItem) : null;
+}
+
+function asObjects(value: unknown): SuiteCommerceItem[] {
+  return Array.isArray(value) ? value.map(asObject).filter((v): v is SuiteCommerceItem => v !== null) : [];
+}
+
+function asText(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  return typeof value === 'number' && Number.isFinite(value) ? String(value) : null;
+}
+
+function asNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function asBoolean(value: unknown): boolean | null {
+  return typeof value === 'boolean' ? value : null;
+}
+
+export function isItemsApiUrl(url: string): boolean {
+  try {
+    return /\/api\/(cacheable\/)?items\/?$/i.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+// Items are matched to product URLs by path, which SCA builds from the item's urlcomponent.
+export function itemKeyForUrl(url: string): string {
+  return decodeURIComponent(new URL(url).pathname).replace(/^\/+|\/+$/g, '').toLowerCase();
+}
+
+export function productUrlForItem(site: SiteConfig, item: SuiteCommerceItem): string {
+  const urlcomponent = asText(item.urlcomponent);
+  if (urlcomponent) return new URL(`/${urlcomponent}`, site.baseUrl).toString();
+  return new URL(`/product/${asText(item.internalid)}`, site.baseUrl).toString();
+}
+
+function collectImageUrls(node: unknown, into: string[] = []): string[] {
+  if (!node || typeof node !== 'object') return into;
+  if (Array.isArray(node)) {
+    node.forEach((n) => collectImageUrls(n, into));
+    return into;
+  }
+  const { url } = node as { url?: unknown };
+  if (typeof url === 'string' && !into.includes(url)) into.push(url);
+  Object.values(node).forEach((v) => collectImageUrls(v, into));
+  return into;
+}
+
+function collectPriceLevels(item: SuiteCommerceItem): Record<string, number> {
+  const levels: Record<string, number> = {};
+  for (const [key, value] of Object.entries(item)) {
+    if (/^pricelevel\d+$/i.test(key) && typeof value === 'number') levels[key] = value;
+  }
+  return levels;
+}
+
+function mapMatrixOptions(item: SuiteCommerceItem): MatrixOption[] {
+  return asObjects(item.matrixchilditems_detail).map((child) => {
+    const options: Record<string, string> = {};
+    for (const [key, value] of Object.entries(child)) {
+      if (/^custitem/i.test(key) && value !== null && value !== undefined && value !== '') options[key] = String(value);
+    }
+    return {
+      internalId: asNumber(child.internalid),
+      sku: asText(child.itemid),
+      options,
+      inStock: asBoolean(child.isinstock),
+      quantityAvailable: asNumber(child.quantityavailable),
+    };
+  });
+}
+
+function stripHtml(html: string | null | undefined): string | null {
+  if (!html) return null;
+  return trimDescription(
+    String(html)
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&'),
+  );
+}
+
+// Quantity tiers of onlinecustomerprice_detail.priceschedule; fields of other types are dropped.
+function mapPriceSchedule(priceDetail: SuiteCommerceItem): ItemApiDetails['priceSchedule'] {
+  return asObjects(priceDetail.priceschedule).map((tier) => ({
+    minimumquantity: asNumber(tier.minimumquantity) ?? undefined,
+    maximumquantity: asNumber(tier.maximumquantity) ?? undefined,
+    price: asNumber(tier.price) ?? undefined,
+    price_formatted: asText(tier.price_formatted) ?? undefined,
+  }));
+}
+
+export function mapItemToRecord(item: SuiteCommerceItem, site: SiteConfig, target: string): ProductRecord {
+  const priceDetail = asObject(item.onlinecustomerprice_detail) ?? {};
+  const categories = asObjects(asObject(item.commercecategory)?.categories)
+    .map((c) => asText(c.name))
+    .filter((name): name is string => !!name);
+  const apiDetails: ItemApiDetails = {
+    internalId: asNumber(item.internalid),
+    matrixOptions: mapMatrixOptions(item),
+    images: collectImageUrls(item.itemimages_detail),
+    categories,
+    priceLevels: collectPriceLevels(item),
+    priceSchedule: mapPriceSchedule(priceDetail),
+    isInStock: asBoolean(item.isinstock),
+    isBackorderable: asBoolean(item.isbackorderable),
+    isPurchasable: asBoolean(item.ispurchasable),
+  };
+  const price = formatPrice(asText(priceDetail.onlinecustomerprice) ?? asText(item.onlinecustomerprice));
+  const quantity = asNumber(item.quantityavailable);
+  const record: RawProductRecord = {
+    target,
+    productUrl: productUrlForItem(site, item),
+    productName: asText(item.storedisplayname2) || asText(item.displayname) || null,
+    sku: asText(item.itemid),
+    mpn: asText(item.mpn) || null,
+    manufacturer: asText(item.manufacturer) || null,
+    price,
+    stock: quantity === null ? null : String(quantity),
+    description: stripHtml(asText(item.storedetaileddescription)) || stripHtml(asText(item.storedescription)),
+    fieldSources: {},
+    apiDetails,
+  };
+  for (const field of EXTRACTED_FIELDS) {
+    if (record[field]) record.fieldSources[field] = 'api';
+  }
+  return normalizeRecord(record);
+}
+
+export type ItemsApiCapture = {
+  // The first items API request seen, reused to page through the full result set directly.
+  requestUrl: string | null;
+  items: Map<string, SuiteCommerceItem>;
+  dispose: () => void;
+};
+
+// Listens for items API responses the search pages fire while rendering.
+export function captureItemsApi(page: Page): ItemsApiCapture {
+  const capture: ItemsApiCapture = { requestUrl: null, items: new Map(), dispose: () => undefined };
+  const onResponse = async (response: Response) => {
+    if (!isItemsApiUrl(response.url()) || !response.ok()) return;
+    const body = asObject(await response.json().catch(() => null));
+    if (!body || !Array.isArray(body.items)) return;
+    capture.requestUrl = capture.requestUrl ?? response.url();
+    for (const item of asObjects(body.items)) {
+      const urlcomponent = asText(item.urlcomponent);
+      if (urlcomponent) capture.items.set(urlcomponent.toLowerCase(), item);
+    }
+  };
+  page.on('response', onResponse);
+  capture.dispose = () => page.off('response', onResponse);
+  return capture;
+}
+
+// Re-issues a captured items API request page by page with the browser context's (logged-in) cookies.
+export async function fetchAllItems(page: Page, requestUrl: string): Promise<SuiteCommerceItem[]> {
+  const items: SuiteCommerceItem[] = [];
+  for (let offset = 0; ; offset += ITEMS_API_PAGE_SIZE) {
+    const url = new URL(requestUrl);
+    url.searchParams.set('offset', String(offset));
+    url.searchParams.set('limit', String(ITEMS_API_PAGE_SIZE));
+    const response = await page.request.get(url.toString());
+    if (!response.ok()) throw new Error(`Items API returned ${response.status()} for ${url}`);
+    const body = asObject(await response.json()) ?? {};
+    const batch = asObjects(body.items);
+    items.push(...batch);
+    const total = asNumber(body.total) ?? items.length;
+    if (batch.length === 0 || items.length >= total) break;
+  }
+  return items;
+}
+
+// Maps every collected product URL that the items API knows about to a record; URLs without an item are left out.
+export async function recordsFromItemsApi(
+  page: Page,
+  capture: ItemsApiCapture,
+  productUrls: string[],
+  site: SiteConfig,
+  target: string,
+): Promise<Map<string, ProductRecord>> {
+  const items = new Map(capture.items);
+  if (capture.requestUrl) {
+    const fetched = await fetchAllItems(page, capture.requestUrl).catch((err) => {
+      logger.warn(`Items API fetch failed, using captured responses only: ${errorMessage(err)}`);
+      return [] as SuiteCommerceItem[];
+    });
+    for (const item of fetched) {
+      const urlcomponent = asText(item.urlcomponent);
+      if (urlcomponent) items.set(urlcomponent.toLowerCase(), item);
+    }
+  }
+  const records = new Map<string, ProductRecord>();
+  for (const url of productUrls) {
+    const item = items.get(itemKeyForUrl(url));
+    // Keep the collected URL so API and HTML records line up with product_urls.json and checkpoints.
+    if (item) records.set(url, { ...mapItemToRecord(item, site, target), productUrl: url });
+  }
+  return records;
+}
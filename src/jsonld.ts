@@ -0,0 +1,37 @@
+import type { Page } from '@playwright/test';
+
+export type JsonLdNode = Record<string, unknown>;
+
+export function asJsonLdNode(value: unknown): JsonLdNode | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as JsonLdNode) : null;
+}
+
+// Strings and numbers as text; anything else (objects, arrays, booleans) is not a field value.
+export function jsonLdText(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return null;
+}
+
+export async function readJsonLdBlocks(page: Page): Promise<string[]> {
+  return page.locator('script[type="application/ld+json"]').allTextContents().catch(() => []);
+}
+
+// Product nodes in document order; a block may hold one node, a list of nodes or an @graph. Malformed blocks are skipped.
+export function jsonLdProducts(blocks: string[]): JsonLdNode[] {
+  const products: JsonLdNode[] = [];
+  for (const block of blocks) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(block || 'null');
+    } catch {
+      continue;
+    }
+    const graph = asJsonLdNode(parsed)?.['@graph'];
+    const nodes = Array.isArray(parsed) ? parsed : Array.isArray(graph) ? graph : [parsed];
+    for (const node of nodes.map(asJsonLdNode)) {
+      if (node && /Product/i.test(String(node['@type']))) products.push(node);
+    }
+  }
+  return products;
+}
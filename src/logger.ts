@@ -0,0 +1,72 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+// 'text' prints the bare message as before; 'json' writes one object per line for log collectors.
+export type LogFormat = 'text' | 'json';
+export type LogFields = Record<string, unknown>;
+
+export type LoggingOptions = {
+  level?: LogLevel;
+  format?: LogFormat;
+  // Receives every JSON line; defaults to stdout.
+  write?: (line: string) => void;
+};
+
+export type Logger = {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  // A logger that adds the given fields to every entry.
+  child: (fields: LogFields) => Logger;
+};
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+export const LOG_LEVELS = Object.keys(LEVEL_ORDER) as LogLevel[];
+export const LOG_FORMATS: LogFormat[] = ['text', 'json'];
+
+const settings: Required<LoggingOptions> = {
+  level: 'info',
+  format: 'text',
+  write: (line) => process.stdout.write(line),
+};
+const logContext = new AsyncLocalStorage<LogFields>();
+
+export function configureLogging(options: LoggingOptions): void {
+  Object.assign(settings, Object.fromEntries(Object.entries(options).filter(([, v]) => v !== undefined)));
+}
+
+// Adds the fields (e.g. the run id) to every entry logged while fn runs, including from concurrent workers.
+export function runWithLogContext<T>(fields: LogFields, fn: () => Promise<T>): Promise<T> {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+// Errors serialize to {} in JSON; keep their message instead.
+function jsonValue(value: unknown): unknown {
+  return value instanceof Error ? value.message : value;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[settings.level]) return;
+  if (settings.format === 'json') {
+    // Fields go first so one named time, level or msg cannot overwrite the entry's own.
+    const entry: LogFields = { ...logContext.getStore(), ...fields, time: new Date().toISOString(), level, msg: message };
+    settings.write(`${JSON.stringify(entry, (_key, value) => jsonValue(value))}\n`);
+    return;
+  }
+  // eslint-disable-next-line no-console
+  const print = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+  print(message);
+}
+
+export function createLogger(bindings: LogFields = {}): Logger {
+  return {
+    debug: (message, fields) => write('debug', message, { ...bindings, ...fields }),
+    info: (message, fields) => write('info', message, { ...bindings, ...fields }),
+    warn: (message, fields) => write('warn', message, { ...bindings, ...fields }),
+    error: (message, fields) => write('error', message, { ...bindings, ...fields }),
+    child: (fields) => createLogger({ ...bindings, ...fields }),
+  };
+}
+
+export const logger = createLogger();
@@ -0,0 +1,251 @@
+import { execFileSync } from 'child_process';
+import { readFileSync, promises as fs } from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+import { DEFAULT_OUTPUT_DIR, saveJson } from './output';
+import { errorMessage } from './retry';
+import type { MetricsRetention, ScrapeOptions } from './types';
+
+export const RUN_MANIFEST_FILENAME = 'run.json';
+export const METRICS_HISTORY_FILENAME = 'run_metrics.json';
+export const DEFAULT_METRICS_MAX_RUNS = 1000;
+
+// Milliseconds spent per phase, e.g. { login: 2100, collect: 18000, products: 240000 }.
+export type PhaseDurations = Record<string, number>;
+
+export type DurationStats = {
+  count: number;
+  avgMs: number;
+  p95Ms: number;
+  maxMs: number;
+};
+
+export type TargetMetrics = {
+  target: string;
+  // Null when the target resumed from a checkpoint and skipped pagination.
+  pagesDiscovered: number | null;
+  totalResults: number | null;
+  urlsCollected: number;
+  // Products read this run from the items API or product pages.
+  scraped: number;
+  // Products carried over unchanged from the previous run's output by an incremental run.
+  reused: number;
+  // Products already done in the checkpoint the target resumed from.
+  resumed: number;
+  failed: number;
+  // Product page visits that succeeded, including retries.
+  productPages: DurationStats | null;
+  phases: PhaseDurations;
+};
+
+export type RunStatus = 'succeeded' | 'failed';
+
+export type RunManifest = {
+  runId: string;
+  scraperVersion: string;
+  commit: string | null;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  status: RunStatus;
+  error: string | null;
+  options: Pick<ScrapeOptions, 'mode' | 'maxPages' | 'targets' | 'concurrency' | 'incremental' | 'comparePrices' | 'assets'>;
+  totals: {
+    pagesDiscovered: number;
+    urlsCollected: number;
+    scraped: number;
+    reused: number;
+    resumed: number;
+    failed: number;
+  };
+  phases: PhaseDurations;
+  targets: TargetMetrics[];
+  qualityScore: number | null;
+};
+
+// One compact entry per run in run_metrics.json, for trends across runs.
+export type RunMetricsEntry = Pick<RunManifest, 'runId' | 'startedAt' | 'durationMs' | 'status' | 'qualityScore'> &
+  RunManifest['totals'] & { avgProductPageMs: number | null };
+
+// Filled in while scrape() runs and turned into the manifest at the end.
+export type RunTracker = {
+  runId: string;
+  startedAt: Date;
+  options: ScrapeOptions;
+  phases: PhaseDurations;
+  targets: TargetMetrics[];
+  qualityScore: number | null;
+};
+
+export function startRunTracker(runId: string, options: ScrapeOptions, startedAt: Date = new Date()): RunTracker {
+  return { runId, startedAt, options, phases: {}, targets: [], qualityScore: null };
+}
+
+// Runs fn and adds its wall-clock time to phases[name], also when it throws.
+export async function timePhase<T>(phases: PhaseDurations, name: string, fn: () => Promise<T>): Promise<T> {
+  const start = Date.now();
+  try {
+    return await fn();
+  } finally {
+    phases[name] = (phases[name] ?? 0) + Date.now() - start;
+  }
+}
+
+export function durationStats(durationsMs: number[]): DurationStats | null {
+  if (durationsMs.length === 0) return null;
+  const sorted = [...durationsMs].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, ms) => sum + ms, 0);
+  return {
+    count: sorted.length,
+    avgMs: Math.round(total / sorted.length),
+    p95Ms: sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1)],
+    maxMs: sorted[sorted.length - 1],
+  };
+}
+
+let version: { scraperVersion: string; commit: string | null } | null = null;
+
+// package.json version plus the checked-out commit (GITHUB_SHA in Actions), read once per process.
+export function scraperVersion(): { scraperVersion: string; commit: string | null } {
+  if (version) return version;
+  const root = path.resolve(__dirname, '..');
+  let scraperVersion = 'unknown';
+  try {
+    scraperVersion = (JSON.parse(readFileSync(path.join(root, 'package.json'), 'utf8')) as { version?: string }).version ?? scraperVersion;
+  } catch {
+    // keep 'unknown'
+  }
+  let commit = process.env.GITHUB_SHA ?? null;
+  if (!commit) {
+    try {
+      commit = execFileSync('git', ['rev-parse', 'HEAD'], { cwd: root, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+    } catch {
+      commit = null;
+    }
+  }
+  version = { scraperVersion, commit };
+  return version;
+}
+
+export function buildRunManifest(tracker: RunTracker, finishedAt: Date = new Date(), error: unknown = null): RunManifest {
+  const { targets, options } = tracker;
+  const sum = (pick: (t: TargetMetrics) => number | null) => targets.reduce((total, t) => total + (pick(t) ?? 0), 0);
+  return {
+    runId: tracker.runId,
+    ...scraperVersion(),
+    startedAt: tracker.startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - tracker.startedAt.getTime(),
+    status: error ? 'failed' : 'succeeded',
+    error: error ? errorMessage(error) : null,
+    options: {
+      mode: options.mode ?? 'html',
+      maxPages: options.maxPages,
+      targets: options.targets,
+      concurrency: options.concurrency,
+      incremental: options.incremental ?? false,
+      comparePrices: options.comparePrices ?? false,
+      assets: options.assets ?? false,
+    },
+    totals: {
+      pagesDiscovered: sum((t) => t.pagesDiscovered),
+      urlsCollected: sum((t) => t.urlsCollected),
+      scraped: sum((t) => t.scraped),
+      reused: sum((t) => t.reused),
+      resumed: sum((t) => t.resumed),
+      failed: sum((t) => t.failed),
+    },
+    phases: tracker.phases,
+    targets,
+    qualityScore: tracker.qualityScore,
+  };
+}
+
+export function metricsEntry(manifest: RunManifest): RunMetricsEntry {
+  const pages = manifest.targets.flatMap((t) => (t.productPages ? [t.productPages] : []));
+  const count = pages.reduce((total, p) => total + p.count, 0);
+  return {
+    runId: manifest.runId,
+    startedAt: manifest.startedAt,
+    durationMs: manifest.durationMs,
+    status: manifest.status,
+    qualityScore: manifest.qualityScore,
+    ...manifest.totals,
+    avgProductPageMs: count ? Math.round(pages.reduce((total, p) => total + p.avgMs * p.count, 0) / count) : null,
+  };
+}
+
+export async function loadMetricsHistory(outputDir: string = DEFAULT_OUTPUT_DIR): Promise<RunMetricsEntry[]> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(outputDir, METRICS_HISTORY_FILENAME), 'utf8')) as RunMetricsEntry[];
+  } catch {
+    return [];
+  }
+}
+
+// Writes run.json for this run and appends its metrics to run_metrics.json, dropping the oldest runs beyond the retention.
+export async function writeRunManifest(
+  manifest: RunManifest,
+  outputDir: string = DEFAULT_OUTPUT_DIR,
+  retention: MetricsRetention = {},
+): Promise<RunMetricsEntry[]> {
+  await saveJson(RUN_MANIFEST_FILENAME, manifest, outputDir);
+  const history = [...(await loadMetricsHistory(outputDir)), metricsEntry(manifest)];
+  const maxRuns = Math.max(1, retention.maxRuns ?? DEFAULT_METRICS_MAX_RUNS);
+  if (history.length > maxRuns) history.splice(0, history.length - maxRuns);
+  await saveJson(METRICS_HISTORY_FILENAME, history, outputDir);
+  const { totals } = manifest;
+  logger.info(
+    `Run ${manifest.status} in ${formatDuration(manifest.durationMs)}: ${totals.urlsCollected} URLs, ` +
+      `${totals.scraped} scraped, ${totals.reused} reused, ${totals.resumed} resumed, ${totals.failed} failed`,
+    { event: 'run_finished', ...metricsEntry(manifest) },
+  );
+  return history;
+}
+
+export function formatDuration(ms: number | null): string {
+  if (ms === null) return '';
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+const formatChange = (current: number | null, previous: number | null | undefined): string => {
+  if (current === null || previous === null || previous === undefined || previous === current) return '';
+  return ` (${current > previous ? '+' : ''}${current - previous})`;
+};
+
+// Markdown for the Actions job summary: the latest run against the one before it, then the recent trend.
+export function renderMetricsSummary(history: RunMetricsEntry[], recentRuns = 10): string {
+  if (history.length === 0) return '## Scrape metrics\n\nNo runs recorded yet.\n';
+  const latest = history[history.length - 1];
+  const previous = history.length > 1 ? history[history.length - 2] : undefined;
+  const lines = [
+    '## Scrape metrics',
+    '',
+    `Run \`${latest.runId}\` ${latest.status} in ${formatDuration(latest.durationMs)}.`,
+    '',
+    '| Metric | Value |',
+    '| --- | --- |',
+    `| Pages discovered | ${latest.pagesDiscovered}${formatChange(latest.pagesDiscovered, previous?.pagesDiscovered)} |`,
+    `| URLs collected | ${latest.urlsCollected}${formatChange(latest.urlsCollected, previous?.urlsCollected)} |`,
+    `| Products scraped | ${latest.scraped}${formatChange(latest.scraped, previous?.scraped)} |`,
+    `| Products reused | ${latest.reused} |`,
+    `| Products resumed | ${latest.resumed ?? 0} |`,
+    `| Failed URLs | ${latest.failed}${formatChange(latest.failed, previous?.failed)} |`,
+    `| Avg product page | ${formatDuration(latest.avgProductPageMs)}${formatChange(latest.avgProductPageMs, previous?.avgProductPageMs)} |`,
+    `| Quality score | ${latest.qualityScore ?? ''} |`,
+    '',
+    `### Last ${Math.min(recentRuns, history.length)} runs`,
+    '',
+    '| Started | Status | Duration | URLs | Scraped | Failed | Avg page |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+  ];
+  for (const run of history.slice(-recentRuns).reverse()) {
+    lines.push(
+      `| ${run.startedAt.slice(0, 16).replace('T', ' ')} | ${run.status} | ${formatDuration(run.durationMs)} | ` +
+        `${run.urlsCollected} | ${run.scraped} | ${run.failed} | ${formatDuration(run.avgProductPageMs)} |`,
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import nodemailer from 'nodemailer';
+import type { Alert } from './alerts';
+import { logger } from './logger';
+
+export type NotifierConfig =
+  | { type: 'stdout' }
+  | { type: 'file'; path: string }
+  | { type: 'webhook'; url?: string; urlEnv?: string; headers?: Record<string, string> }
+  | {
+      type: 'email';
+      to: string | string[];
+      from: string;
+      host?: string;
+      port?: number;
+      secure?: boolean;
+      // Environment variables holding the SMTP host and credentials (defaults: SMTP_HOST, SMTP_USER, SMTP_PASSWORD).
+      hostEnv?: string;
+      userEnv?: string;
+      passwordEnv?: string;
+    };
+
+export type Notifier = {
+  name: string;
+  send: (alerts: Alert[], runId: string) => Promise<void>;
+};
+
+// Plugged-in notifier types receive their config entry as written and check their own fields.
+export type NotifierFactory = (config: { type: string } & Record<string, unknown>) => Notifier;
+
+// Each built-in factory receives the config variant of its own type.
+type BuiltinFactories = { [T in NotifierConfig['type']]: (config: Extract<NotifierConfig, { type: T }>) => Notifier };
+
+function formatAlerts(alerts: Alert[], runId: string): string {
+  return [`${alerts.length} alert(s) for run ${runId}:`, ...alerts.map((a) => `- ${a.message} ${a.productUrl}`)].join('\n');
+}
+
+const builtins: BuiltinFactories = {
+  stdout: (): Notifier => ({
+    name: 'stdout',
+    send: async (alerts, runId) => {
+      // Through the logger, so --log-format json output stays one object per line.
+      logger.info(formatAlerts(alerts, runId), { event: 'alert', alerts });
+    },
+  }),
+  file: (config): Notifier => ({
+    name: `file:${config.path}`,
+    send: async (alerts, runId) => {
+      const filePath = path.resolve(config.path);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const lines = alerts.map((a) => JSON.stringify({ runId, ...a }));
+      await fs.appendFile(filePath, `${lines.join('\n')}\n`, 'utf8');
+    },
+  }),
+  webhook: (config): Notifier => ({
+    name: 'webhook',
+    send: async (alerts, runId) => {
+      const url = config.url || (config.urlEnv ? process.env[config.urlEnv] : undefined);
+      if (!url) throw new Error(`Webhook notifier has no URL; set "url" or the ${config.urlEnv ?? 'urlEnv'} variable.`);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...config.headers },
+        body: JSON.stringify({ runId, text: formatAlerts(alerts, runId), alerts }),
+      });
+      if (!response.ok) throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+    },
+  }),
+  email: (config): Notifier => ({
+    name: 'email',
+    send: async (alerts, runId) => {
+      const host = config.host || process.env[config.hostEnv || 'SMTP_HOST'];
+      if (!host) throw new Error(`Email notifier has no SMTP host; set "host" or ${config.hostEnv || 'SMTP_HOST'}.`);
+      const user = process.env[config.userEnv || 'SMTP_USER'];
+      const pass = process.env[config.passwordEnv || 'SMTP_PASSWORD'];
+      const transport = nodemailer.createTransport({
+        host,
+        port: config.port ?? 587,
+        secure: config.secure ?? false,
+        auth: user && pass ? { user, pass } : undefined,
+      });
+      await transport.sendMail({
+        from: config.from,
+        to: Array.isArray(config.to) ? config.to.join(', ') : config.to,
+        subject: `Product alerts: ${alerts.length} triggered`,
+        text: formatAlerts(alerts, runId),
+      });
+    },
+  }),
+};
+
+const registered: Record<string, NotifierFactory> = {};
+
+// Lets other tooling plug in extra notifier types (e.g. a chat integration) under a config "type".
+export function registerNotifier(type: string, factory: NotifierFactory): void {
+  registered[type] = factory;
+}
+
+export function createNotifier(config: NotifierConfig): Notifier {
+  const plugged = Object.prototype.hasOwnProperty.call(registered, config.type) ? registered[config.type] : undefined;
+  if (plugged) return plugged(config);
+  if (!Object.prototype.hasOwnProperty.call(builtins, config.type)) throw new Error(`Unknown notifier type "${config.type}".`);
+  // BuiltinFactories pairs each type with its config variant; indexing by config.type loses that pairing.
+  const builtin = builtins[config.type] as (config: NotifierConfig) => Notifier;
+  return builtin(config);
+}
@@ -0,0 +1,21 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+
+export const DEFAULT_OUTPUT_DIR = path.resolve('data');
+
+export async function ensureOutputDir(outputDir: string = DEFAULT_OUTPUT_DIR): Promise<void> {
+  await fs.mkdir(outputDir, { recursive: true });
+}
+
+export async function saveJson(filename: string, data: unknown, outputDir: string = DEFAULT_OUTPUT_DIR): Promise<string> {
+  await ensureOutputDir(outputDir);
+  const filePath = path.join(outputDir, filename);
+  await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf8');
+  logger.info(`Saved: ${filePath}`);
+  return filePath;
+}
+
+export async function readJson<T>(filePath: string): Promise<T> {
+  return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+}
@@ -0,0 +1,16 @@
+// Numbers from the scraped price and stock strings; null when the text holds no number ("Call for price", "Out of stock").
+export function parsePriceToNumber(p: string | null): number | null {
+  if (!p) return null;
+  const cleaned = p.replace(/[^0-9.\-]/g, '');
+  if (!cleaned) return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function parseStockToNumber(s: string | null): number | null {
+  if (!s) return null;
+  const cleaned = s.replace(/[^0-9\-]/g, '');
+  if (!cleaned) return null;
+  const n = Number.parseInt(cleaned, 10);
+  return Number.isNaN(n) ? null : n;
+}
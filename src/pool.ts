@@ -0,0 +1,68 @@
+import type { Page } from '@playwright/test';
+
+export type PoolOptions = {
+  // Number of pages working through the URL list at once.
+  concurrency?: number;
+  // Minimum gap between two navigations to the same host, shared by all workers.
+  politenessDelayMs?: number;
+};
+
+export const DEFAULT_CONCURRENCY = 4;
+export const DEFAULT_POLITENESS_DELAY_MS = 500;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Returns a function that waits until the URL's host may be hit again, reserving the next slot on the way out.
+export function createHostThrottle(delayMs: number): (url: string) => Promise<void> {
+  const nextSlot = new Map<string, number>();
+  return async (url: string) => {
+    if (delayMs <= 0) return;
+    const host = new URL(url).host;
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot.get(host) ?? 0);
+    nextSlot.set(host, slot + delayMs);
+    if (slot > now) await sleep(slot - now);
+  };
+}
+
+// Processes URLs on up to `concurrency` pages of the given page's (logged-in) context.
+// Results keep the input order regardless of which worker finished first. The first error fn throws stops every
+// worker from taking another URL; it is rethrown once the URLs already in flight settled and the pages are closed.
+export async function mapUrlsWithPages<T>(
+  page: Page,
+  urls: string[],
+  options: PoolOptions,
+  fn: (workerPage: Page, url: string, index: number) => Promise<T>,
+): Promise<T[]> {
+  const concurrency = Math.max(1, Math.min(options.concurrency ?? DEFAULT_CONCURRENCY, urls.length || 1));
+  const throttle = createHostThrottle(options.politenessDelayMs ?? DEFAULT_POLITENESS_DELAY_MS);
+  const results = new Array<T>(urls.length);
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+
+  // The caller's page is worker 0; the others share its cookies by living in the same context.
+  const extraPages = await Promise.all(Array.from({ length: concurrency - 1 }, () => page.context().newPage()));
+  const worker = async (workerPage: Page): Promise<void> => {
+    while (!failure && next < urls.length) {
+      const index = next;
+      next += 1;
+      await throttle(urls[index]);
+      if (failure) return;
+      try {
+        results[index] = await fn(workerPage, urls[index], index);
+      } catch (error) {
+        failure = failure ?? { error };
+      }
+    }
+  };
+
+  try {
+    await Promise.allSettled([page, ...extraPages].map((p) => worker(p)));
+  } finally {
+    await Promise.all(extraPages.map((p) => p.close().catch(() => undefined)));
+  }
+  if (failure) throw failure.error;
+  return results;
+}
@@ -0,0 +1,19 @@
+import { parsePriceToNumber } from './parse';
+import type { PriceComparison, ProductRecord } from './types';
+
+// Compares the anonymous price with the logged-in one; the discount is what the account saves per unit.
+export function comparePrices(guestPrice: string | null, accountPrice: string | null): PriceComparison {
+  const guest = parsePriceToNumber(guestPrice);
+  const account = parsePriceToNumber(accountPrice);
+  if (guest === null || account === null) {
+    return { guestPrice, accountPrice, discountCents: null, discountPercent: null };
+  }
+  const discountCents = Math.round(guest * 100) - Math.round(account * 100);
+  const discountPercent = guest > 0 ? Math.round((discountCents / Math.round(guest * 100)) * 10000) / 100 : null;
+  return { guestPrice, accountPrice, discountCents, discountPercent };
+}
+
+// The record's own price is the logged-in one; a guest page that hides prices yields a null guestPrice.
+export function withPriceComparison(record: ProductRecord, guestPrice: string | null): ProductRecord {
+  return { ...record, priceComparison: comparePrices(guestPrice, record.price) };
+}
@@ -0,0 +1,187 @@
+import type { Page } from '@playwright/test';
+import { asJsonLdNode, jsonLdProducts, jsonLdText, readJsonLdBlocks } from './jsonld';
+import type { JsonLdNode } from './jsonld';
+import { normalizeRecord } from './schema';
+import type { ExtractedField, FieldSource, ProductRecord } from './types';
+
+type FieldValues = Partial<Record<ExtractedField, string | null>>;
+
+// Raw per-strategy values read from the rendered product page.
+export type ProductPageSnapshot = {
+  jsonld: FieldValues;
+  microdata: FieldValues;
+  dom: FieldValues;
+  detailsText: string;
+};
+
+export const EXTRACTED_FIELDS: ExtractedField[] = ['productName', 'sku', 'mpn', 'manufacturer', 'price', 'stock', 'description'];
+
+type PageSource = Exclude<FieldSource, 'api'>;
+
+// Strategies in order of preference; regex over innerText is only a fallback.
+const SOURCE_ORDER: PageSource[] = ['jsonld', 'microdata', 'dom', 'regex'];
+
+// SuiteCommerce Advanced theme elements holding individual fields on the product details page.
+const DOM_SELECTORS: Partial<Record<ExtractedField, string[]>> = {
+  productName: ['h1.product-details-full-content-header-title', 'h1'],
+  sku: ['.product-line-sku-value'],
+  price: ['.product-views-price-lead'],
+  description: [
+    '.product-details-information-tab-content-panel',
+    '#product-details-information-tab-content-container-0',
+    '.product-details-full-content-description',
+  ],
+};
+
+// Text on the details form that follows the description and must not be captured as part of it.
+const DESCRIPTION_TERMINATORS = [
+  /\n\s*\$[\d,.]+\s*(\n|$)/,
+  /\n\s*This item is/i,
+  /\n\s*Current Stock/i,
+  /\n\s*Quantity\b/i,
+  /\n\s*ADD TO CART/i,
+];
+
+function clean(value: string | null | undefined): string | null {
+  if (value === null || value === undefined) return null;
+  const trimmed = String(value).replace(/[ \t]+\n/g, '\n').trim();
+  return trimmed || null;
+}
+
+// Null for text without digits ("Call for price", "Log in to see price"); Number('') would read it as $0.00.
+export function formatPrice(value: string | number | null | undefined): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const digits = String(value).replace(/[^0-9.\-]/g, '');
+  if (!/\d/.test(digits)) return null;
+  const n = Number(digits);
+  if (!Number.isFinite(n)) return null;
+  return `$${n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function trimDescription(text: string | null): string | null {
+  if (!text) return null;
+  let end = text.length;
+  for (const terminator of DESCRIPTION_TERMINATORS) {
+    const m = text.match(terminator);
+    if (m && m.index !== undefined && m.index < end) end = m.index;
+  }
+  return clean(text.slice(0, end));
+}
+
+// Legacy label-based extraction over the details form text.
+export function extractWithRegex(detailsText: string): FieldValues {
+  const matchAfter = (labelRegex: RegExp): string | null => {
+    const m = detailsText.match(labelRegex);
+    if (!m) return null;
+    return m[1]?.trim() || null;
+  };
+  const priceMatch = detailsText.match(/\$[\d,.]+/);
+  return {
+    sku: matchAfter(/\bSKU\s*[:#-]?\s*([^\n]+)/i) || matchAfter(/\bItem\s*[:#-]?\s*([^\n]+)/i),
+    mpn: matchAfter(/\bMPN\s*[:#-]?\s*([^\n]+)/i),
+    manufacturer: matchAfter(/\bMANUFACTURER\s*[:#-]?\s*([^\n]+)/i),
+    description: trimDescription(matchAfter(/\bDescription\s*[:#-]?\s*([^\n][\s\S]*?)$/i)),
+    price: priceMatch ? priceMatch[0] : null,
+    stock: matchAfter(/\bCurrent Stock\s*[:#-]?\s*([^\n]+)/i),
+  };
+}
+
+// Picks each field from the first strategy that produced a value and records which one it was.
+export function resolveProductFields(
+  snapshot: ProductPageSnapshot,
+): { values: Record<ExtractedField, string | null>; fieldSources: Partial<Record<ExtractedField, FieldSource>> } {
+  const byStrategy: Record<PageSource, FieldValues> = {
+    jsonld: snapshot.jsonld,
+    microdata: snapshot.microdata,
+    dom: snapshot.dom,
+    regex: extractWithRegex(snapshot.detailsText),
+  };
+  const values = {} as Record<ExtractedField, string | null>;
+  const fieldSources: Partial<Record<ExtractedField, FieldSource>> = {};
+  for (const field of EXTRACTED_FIELDS) {
+    values[field] = null;
+    for (const source of SOURCE_ORDER) {
+      let value = clean(byStrategy[source][field]);
+      if (value && field === 'price') value = formatPrice(value);
+      if (value && field === 'stock') value = value.match(/-?\d[\d,]*/)?.[0].replace(/,/g, '') ?? value;
+      if (value) {
+        values[field] = value;
+        fieldSources[field] = source;
+        break;
+      }
+    }
+  }
+  return { values, fieldSources };
+}
+
+// Brand and manufacturer are either a plain name or an Organization/Brand node.
+function jsonLdName(value: unknown): string | null {
+  return jsonLdText(value) ?? jsonLdText(asJsonLdNode(value)?.name);
+}
+
+function jsonLdValues(product: JsonLdNode | undefined): FieldValues {
+  if (!product) return {};
+  const offers = asJsonLdNode(Array.isArray(product.offers) ? product.offers[0] : product.offers);
+  return {
+    productName: jsonLdText(product.name),
+    sku: jsonLdText(product.sku),
+    mpn: jsonLdText(product.mpn),
+    manufacturer: jsonLdName(product.manufacturer) ?? jsonLdName(product.brand),
+    description: jsonLdText(product.description),
+    price: jsonLdText(offers?.price),
+    stock: jsonLdText(asJsonLdNode(offers?.inventoryLevel)?.value),
+  };
+}
+
+export async function readProductPageSnapshot(page: Page): Promise<ProductPageSnapshot> {
+  const detailsLocator = page.locator('#product-details-full-form');
+  const detailsText = (await detailsLocator.first().innerText().catch(() => '')) || (await page.innerText('body').catch(() => ''));
+  const structured = await page
+    .evaluate((domSelectors) => {
+      const text = (el: Element | null): string | null => (el ? (el as HTMLElement).innerText ?? el.textContent : null);
+
+      // Only trust itemprops inside a Product scope; header/footer markup carries its own itemprop="name".
+      const scope = document.querySelector('[itemtype*="schema.org/Product"]');
+      const prop = (p: string): string | null => {
+        const el = scope ? scope.querySelector(`[itemprop="${p}"]`) : null;
+        if (!el) return null;
+        return el.getAttribute('content') ?? text(el);
+      };
+      const microdata: Record<string, string | null> = {
+        productName: prop('name'),
+        sku: prop('sku'),
+        mpn: prop('mpn'),
+        manufacturer: (() => {
+          const brand = scope ? scope.querySelector('[itemprop="brand"], [itemprop="manufacturer"]') : null;
+          if (!brand) return null;
+          const inner = brand.querySelector('[itemprop="name"]');
+          return inner ? inner.getAttribute('content') ?? text(inner) : brand.getAttribute('content') ?? text(brand);
+        })(),
+        description: prop('description'),
+        price: prop('price'),
+      };
+
+      const dom: Record<string, string | null> = {};
+      for (const [field, selectors] of Object.entries(domSelectors)) {
+        for (const selector of selectors as string[]) {
+          const el = document.querySelector(selector);
+          // SCA keeps the unformatted price on data-rate
+          const value = el ? el.getAttribute('data-rate') ?? text(el) : null;
+          if (value && value.trim()) {
+            dom[field] = value;
+            break;
+          }
+        }
+      }
+      return { microdata, dom };
+    }, DOM_SELECTORS)
+    .catch(() => ({ microdata: {}, dom: {} }));
+  const jsonld = jsonLdValues(jsonLdProducts(await readJsonLdBlocks(page))[0]);
+  return { jsonld, ...structured, detailsText };
+}
+
+export async function extractProductDetails(page: Page, target: string): Promise<ProductRecord> {
+  const productUrl = page.url();
+  const { values, fieldSources } = resolveProductFields(await readProductPageSnapshot(page));
+  return normalizeRecord({ target, productUrl, ...values, fieldSources });
+}
@@ -0,0 +1,102 @@
+import { RECORD_SCHEMA, validateRecord } from './schema';
+import type { FieldIssue } from './schema';
+import type { ProductRecord, QualityThresholds } from './types';
+
+export const DEFAULT_QUALITY_THRESHOLDS: Required<QualityThresholds> = {
+  maxNullRate: { productName: 0.02, sku: 0.05, price: 0.05, stock: 0.1 },
+  maxInvalidRate: 0.05,
+  maxDuplicateSkus: 0,
+  minScore: 90,
+};
+
+export type QualityReport = {
+  runId: string;
+  recordCount: number;
+  // Share of records with a null value, per schema field.
+  nullRate: Record<string, number>;
+  invalidValues: FieldIssue[];
+  invalidRecordRate: number;
+  duplicateSkus: Array<{ target: string; sku: string; productUrls: string[] }>;
+  // 0-100: share of required field values that are present and valid.
+  score: number;
+  passed: boolean;
+  violations: string[];
+};
+
+export class DataQualityError extends Error {
+  constructor(readonly report: QualityReport) {
+    super(`Data quality check failed: ${report.violations.join('; ')}`);
+    this.name = 'DataQualityError';
+  }
+}
+
+const round = (n: number, digits = 4): number => Math.round(n * 10 ** digits) / 10 ** digits;
+
+export function buildQualityReport(
+  runId: string,
+  records: ProductRecord[],
+  thresholds: QualityThresholds = {},
+): QualityReport {
+  // Per field, so overriding one field's null rate keeps the defaults for the others.
+  const limits = {
+    ...DEFAULT_QUALITY_THRESHOLDS,
+    ...thresholds,
+    maxNullRate: { ...DEFAULT_QUALITY_THRESHOLDS.maxNullRate, ...thresholds.maxNullRate },
+  };
+  const total = records.length;
+
+  const nullRate: Record<string, number> = {};
+  for (const rule of RECORD_SCHEMA) {
+    const nulls = records.filter((r) => r[rule.field] === null || r[rule.field] === undefined).length;
+    nullRate[rule.field] = total ? round(nulls / total) : 0;
+  }
+
+  const invalidValues = records.flatMap((r) => validateRecord(r));
+  const invalidRecordRate = total ? round(new Set(invalidValues.map((i) => i.productUrl)).size / total) : 0;
+
+  const bySku = new Map<string, Set<string>>();
+  for (const r of records) {
+    if (!r.sku) continue;
+    const key = `${r.target}\u0000${r.sku.trim().toUpperCase()}`;
+    bySku.set(key, (bySku.get(key) ?? new Set()).add(r.productUrl));
+  }
+  const duplicateSkus = Array.from(bySku.entries())
+    .filter(([, urls]) => urls.size > 1)
+    .map(([key, urls]) => {
+      const [target, sku] = key.split('\u0000');
+      return { target, sku, productUrls: Array.from(urls) };
+    });
+
+  const required = RECORD_SCHEMA.filter((rule) => rule.required);
+  const invalidRequired = invalidValues.filter((i) => required.some((rule) => rule.field === i.field)).length;
+  const missingRequired = required.reduce((sum, rule) => sum + nullRate[rule.field] * total, 0);
+  const checked = total * required.length;
+  const score = checked ? round(100 * (1 - (missingRequired + invalidRequired) / checked), 2) : 0;
+
+  const violations: string[] = [];
+  if (total === 0) violations.push('no records');
+  for (const [field, max] of Object.entries(limits.maxNullRate)) {
+    if (max !== undefined && (nullRate[field] ?? 0) > max) {
+      violations.push(`${field} null rate ${nullRate[field]} > ${max}`);
+    }
+  }
+  if (invalidRecordRate > limits.maxInvalidRate) {
+    violations.push(`invalid record rate ${invalidRecordRate} > ${limits.maxInvalidRate}`);
+  }
+  if (duplicateSkus.length > limits.maxDuplicateSkus) {
+    violations.push(`${duplicateSkus.length} duplicate SKU(s) > ${limits.maxDuplicateSkus}`);
+  }
+  if (score < limits.minScore) violations.push(`score ${score} < ${limits.minScore}`);
+
+  return {
+    runId,
+    recordCount: total,
+    nullRate,
+    invalidValues,
+    invalidRecordRate,
+    duplicateSkus,
+    score,
+    passed: violations.length === 0,
+    violations,
+  };
+}
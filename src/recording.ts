@@ -0,0 +1,118 @@
+import type { BrowserContext, Page } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { listingUrlForTarget } from './config';
+import { DEFAULT_OUTPUT_DIR, readJson, saveJson } from './output';
+import { mapUrlsWithPages } from './pool';
+import { extractProductDetails } from './product';
+import { collectAllProductUrls } from './search';
+import type { PaginationSummary, ProductRecord, ScrapeConfig, ScrapeOptions, TargetConfig } from './types';
+
+export const RECORDINGS_DIRNAME = 'recordings';
+const HAR_FILENAME = 'session.har';
+const MANIFEST_FILENAME = 'recording.json';
+
+export type RecordedTarget = {
+  target: TargetConfig;
+  listingUrl: string;
+  maxPages?: number;
+  productUrls: string[];
+};
+
+// Written next to the HAR so a replay knows which listings and products the run visited.
+export type RecordingManifest = {
+  runId: string;
+  recordedAt: string;
+  targets: RecordedTarget[];
+};
+
+export type ReplayOptions = Pick<ScrapeOptions, 'concurrency' | 'politenessDelayMs'> & {
+  // Only re-extract these product URLs instead of re-paginating every recorded listing.
+  productUrls?: string[];
+};
+
+export type ReplayResult = {
+  pagination: Record<string, PaginationSummary>;
+  records: ProductRecord[];
+};
+
+export function recordingDirForRun(runId: string, outputDir: string = DEFAULT_OUTPUT_DIR): string {
+  return path.join(outputDir, RECORDINGS_DIRNAME, runId.replace(/[:.]/g, '-'));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Same-origin responses of every configured site, except checkout and anything login-related so credentials
+// posted to the login page or service never land in the HAR.
+function recordedUrlPattern(config: ScrapeConfig): RegExp {
+  const alternatives = Object.values(config.sites).map((site) => {
+    const { origin } = new URL(site.baseUrl);
+    const loginPath = new URL(site.loginUrl, site.baseUrl).pathname.replace(/^\//, '');
+    return `${escapeRegExp(origin)}/(?!${escapeRegExp(loginPath)}|scs/checkout|.*login)`;
+  });
+  return new RegExp(`^(?:${alternatives.join('|')})`, 'i');
+}
+
+// Starts saving responses into <dir>/session.har; bodies are attached as separate files and the HAR is
+// written when the browser context closes.
+export async function startRecording(context: BrowserContext, config: ScrapeConfig, recordingDir: string): Promise<void> {
+  await fs.mkdir(recordingDir, { recursive: true });
+  await context.routeFromHAR(path.join(recordingDir, HAR_FILENAME), {
+    update: true,
+    updateContent: 'attach',
+    updateMode: 'minimal',
+    url: recordedUrlPattern(config),
+  });
+}
+
+export async function writeRecordingManifest(recordingDir: string, manifest: RecordingManifest): Promise<string> {
+  return saveJson(MANIFEST_FILENAME, manifest, recordingDir);
+}
+
+export function recordedTarget(config: ScrapeConfig, target: TargetConfig, productUrls: string[], options: ScrapeOptions): RecordedTarget {
+  return {
+    target,
+    listingUrl: listingUrlForTarget(config.sites[target.site], target),
+    maxPages: options.maxPages ?? target.maxPages,
+    productUrls,
+  };
+}
+
+export async function loadRecordingManifest(recordingDir: string): Promise<RecordingManifest> {
+  return readJson<RecordingManifest>(path.join(recordingDir, MANIFEST_FILENAME));
+}
+
+// Serves every request of the context from the recording; anything that was not recorded is aborted.
+export async function openReplay(context: BrowserContext, recordingDir: string): Promise<void> {
+  await context.routeFromHAR(path.join(recordingDir, HAR_FILENAME), { notFound: 'abort' });
+}
+
+// Re-runs URL collection and product extraction against a recorded session; the page's context must be opened with openReplay().
+export async function replayRecording(page: Page, recordingDir: string, options: ReplayOptions = {}): Promise<ReplayResult> {
+  const manifest = await loadRecordingManifest(recordingDir);
+  const pagination: Record<string, PaginationSummary> = {};
+  const records: ProductRecord[] = [];
+  for (const recorded of manifest.targets) {
+    let productUrls: string[];
+    if (options.productUrls?.length) {
+      productUrls = options.productUrls.filter((u) => recorded.productUrls.includes(u));
+    } else {
+      const collected = await collectAllProductUrls(page, recorded.listingUrl, recorded.maxPages);
+      pagination[recorded.target.name] = collected.summary;
+      productUrls = collected.urls;
+    }
+    const targetRecords = await mapUrlsWithPages(page, productUrls, { ...options, politenessDelayMs: 0 }, async (workerPage, url) => {
+      await workerPage.goto(url, { waitUntil: 'domcontentloaded' });
+      await workerPage.locator('h1, h2.product-title, .product-details-info').first().waitFor({ timeout: 15000 }).catch(() => undefined);
+      return extractProductDetails(workerPage, recorded.target.name);
+    });
+    records.push(...targetRecords);
+  }
+
+  const replayDir = path.join(recordingDir, 'replay');
+  await saveJson('search_pages.json', pagination, replayDir);
+  await saveJson('products.json', records, replayDir);
+  return { pagination, records };
+}
@@ -0,0 +1,187 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { summarizeDiff } from './diff';
+import type { PriceChange, ProductRef, RunDiff, StockChange } from './diff';
+import { logger } from './logger';
+import { DEFAULT_OUTPUT_DIR, ensureOutputDir } from './output';
+
+export const CHANGES_SHEET = 'Changes';
+
+type ChangeRow = {
+  change: string;
+  sku: string | null;
+  productName: string | null;
+  previous: number | null;
+  current: number | null;
+  deltaPercent: number | null;
+  productUrl: string;
+};
+
+type Section = { title: string; rows: ChangeRow[] };
+
+const fromPrice = (change: string) => (p: PriceChange): ChangeRow => ({
+  change,
+  sku: p.sku,
+  productName: p.productName,
+  previous: p.previousPrice,
+  current: p.currentPrice,
+  deltaPercent: p.deltaPercent,
+  productUrl: p.productUrl,
+});
+
+const fromStock = (change: string) => (s: StockChange): ChangeRow => ({
+  change,
+  sku: s.sku,
+  productName: s.productName,
+  previous: s.previousStock,
+  current: s.currentStock,
+  deltaPercent: null,
+  productUrl: s.productUrl,
+});
+
+const fromRef = (change: string) => (p: ProductRef): ChangeRow => ({
+  change,
+  sku: p.sku,
+  productName: p.productName,
+  previous: null,
+  current: null,
+  deltaPercent: null,
+  productUrl: p.productUrl,
+});
+
+// Report sections in the order buyers read them; empty sections are still listed so "nothing changed" is explicit.
+export function changeSections(diff: RunDiff): Section[] {
+  const byDelta = (a: PriceChange, b: PriceChange) => Math.abs(b.deltaPercent) - Math.abs(a.deltaPercent);
+  return [
+    { title: 'Price increases', rows: diff.priceChanges.filter((p) => p.deltaPercent > 0).sort(byDelta).map(fromPrice('Price increase')) },
+    { title: 'Price decreases', rows: diff.priceChanges.filter((p) => p.deltaPercent < 0).sort(byDelta).map(fromPrice('Price decrease')) },
+    { title: 'Out of stock', rows: diff.stockOuts.map(fromStock('Out of stock')) },
+    { title: 'Back in stock', rows: diff.restocks.map(fromStock('Back in stock')) },
+    { title: 'New products', rows: diff.newProducts.map(fromRef('New')) },
+    { title: 'Delisted products', rows: diff.removedProducts.map(fromRef('Delisted')) },
+    { title: 'Image changes', rows: diff.imageChanges.map(fromRef('Image changed')) },
+  ];
+}
+
+const formatValue = (row: ChangeRow, value: number | null): string => {
+  if (value === null) return '';
+  return row.change.startsWith('Price') ? `$${value.toFixed(2)}` : String(value);
+};
+
+const formatDelta = (delta: number | null): string => (delta === null ? '' : `${delta > 0 ? '+' : ''}${delta.toFixed(2)}%`);
+
+function escapeMarkdown(text: string | null): string {
+  return (text ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function escapeHtml(text: string | null): string {
+  return (text ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function renderMarkdownReport(diff: RunDiff): string {
+  const lines = [
+    '# Product changes',
+    '',
+    `Run ${diff.currentRunId} compared with ${diff.previousRunId ?? '(no previous run)'}: ${summarizeDiff(diff)}.`,
+  ];
+  for (const section of changeSections(diff)) {
+    lines.push('', `## ${section.title} (${section.rows.length})`, '');
+    if (section.rows.length === 0) {
+      lines.push('None.');
+      continue;
+    }
+    lines.push('| SKU | Item Name | Previous | Current | Change | Product URL |', '| --- | --- | --- | --- | --- | --- |');
+    for (const row of section.rows) {
+      lines.push(
+        `| ${escapeMarkdown(row.sku)} | ${escapeMarkdown(row.productName)} | ${formatValue(row, row.previous)} | ` +
+          `${formatValue(row, row.current)} | ${formatDelta(row.deltaPercent)} | ${escapeMarkdown(row.productUrl)} |`,
+      );
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export function renderHtmlReport(diff: RunDiff): string {
+  const sections = changeSections(diff)
+    .map((section) => {
+      const body = section.rows.length
+        ? `<table>
+<thead><tr><th>SKU</th><th>Item Name</th><th>Previous</th><th>Current</th><th>Change</th></tr></thead>
+<tbody>
+${section.rows
+  .map(
+    (row) =>
+      `<tr><td>${escapeHtml(row.sku)}</td><td><a href="${escapeHtml(row.productUrl)}">${escapeHtml(row.productName)}</a></td>` +
+      `<td>${formatValue(row, row.previous)}</td><td>${formatValue(row, row.current)}</td><td>${formatDelta(row.deltaPercent)}</td></tr>`,
+  )
+  .join('\n')}
+</tbody>
+</table>`
+        : '<p>None.</p>';
+      return `<h2>${section.title} (${section.rows.length})</h2>\n${body}`;
+    })
+    .join('\n');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Product changes ${escapeHtml(diff.currentRunId)}</title>
+<style>
+body { font-family: sans-serif; margin: 2rem; }
+table { border-collapse: collapse; margin-bottom: 1rem; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+th { background: #f0f0f0; }
+</style>
+</head>
+<body>
+<h1>Product changes</h1>
+<p>Run ${escapeHtml(diff.currentRunId)} compared with ${escapeHtml(diff.previousRunId ?? '(no previous run)')}: ${summarizeDiff(diff)}.</p>
+${sections}
+</body>
+</html>
+`;
+}
+
+// Replaces the workbook's Changes sheet with the rows of the given diff; the other sheets are left untouched.
+// writeExcel carries this sheet over when it rebuilds the workbook.
+export async function writeChangesSheet(diff: RunDiff, excelFilename: string, outputDir: string = DEFAULT_OUTPUT_DIR): Promise<string> {
+  const filePath = path.join(outputDir, excelFilename);
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+  const existing = workbook.getWorksheet(CHANGES_SHEET);
+  if (existing) workbook.removeWorksheet(existing.id);
+  const sheet = workbook.addWorksheet(CHANGES_SHEET);
+  sheet.columns = [
+    { header: 'CHANGE', key: 'change', width: 18 },
+    { header: 'SKU', key: 'sku', width: 30 },
+    { header: 'Item Name', key: 'productName', width: 50 },
+    { header: 'PREVIOUS', key: 'previous', width: 15 },
+    { header: 'CURRENT', key: 'current', width: 15 },
+    { header: 'DELTA %', key: 'deltaPercent', width: 12 },
+    { header: 'PRODUCT URL', key: 'productUrl', width: 80 },
+  ];
+  for (const section of changeSections(diff)) {
+    for (const row of section.rows) {
+      const added = sheet.addRow({ ...row, deltaPercent: row.deltaPercent === null ? null : row.deltaPercent / 100 });
+      if (row.change.startsWith('Price')) {
+        added.getCell('previous').numFmt = '$#,##0.00';
+        added.getCell('current').numFmt = '$#,##0.00';
+      }
+    }
+  }
+  sheet.getColumn('deltaPercent').numFmt = '+0.00%;-0.00%';
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  await workbook.xlsx.writeFile(filePath);
+  return filePath;
+}
+
+export async function writeChangeReport(diff: RunDiff, outputDir: string = DEFAULT_OUTPUT_DIR): Promise<string[]> {
+  await ensureOutputDir(outputDir);
+  const markdownPath = path.join(outputDir, 'changes_latest.md');
+  const htmlPath = path.join(outputDir, 'changes_latest.html');
+  await fs.writeFile(markdownPath, renderMarkdownReport(diff), 'utf8');
+  await fs.writeFile(htmlPath, renderHtmlReport(diff), 'utf8');
+  logger.info(`Change report written: ${markdownPath}, ${htmlPath}`);
+  return [markdownPath, htmlPath];
+}
@@ -0,0 +1,49 @@
+export type RetryOptions = {
+  // Extra attempts after the first one.
+  retries?: number;
+  // Delay before the first retry; doubles on every further retry.
+  retryDelayMs?: number;
+};
+
+export const DEFAULT_RETRIES = 2;
+export const DEFAULT_RETRY_DELAY_MS = 2000;
+
+export class RetryError extends Error {
+  constructor(
+    message: string,
+    readonly attempts: number,
+    readonly lastError: unknown,
+  ) {
+    super(message);
+    this.name = 'RetryError';
+  }
+}
+
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+export async function retryWithBackoff<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions = {},
+  onRetry?: (err: unknown, attempt: number, delayMs: number) => void,
+  // Errors for which this returns false are rethrown as-is without further attempts.
+  isRetryable: (err: unknown) => boolean = () => true,
+): Promise<T> {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const baseDelay = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= retries + 1; attempt += 1) {
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      lastError = err;
+      if (!isRetryable(err)) throw err;
+      if (attempt > retries) break;
+      const delayMs = baseDelay * 2 ** (attempt - 1);
+      onRetry?.(err, attempt, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+  throw new RetryError(errorMessage(lastError), retries + 1, lastError);
+}
@@ -0,0 +1,92 @@
+import { parsePriceToNumber, parseStockToNumber } from './parse';
+import type { ProductRecord, RawProductRecord, StockStatus } from './types';
+
+export type FieldIssue = {
+  productUrl: string;
+  field: keyof ProductRecord;
+  value: unknown;
+  reason: string;
+};
+
+type FieldRule = {
+  field: keyof ProductRecord;
+  // Null is a quality problem for required fields (counted in the null rate), never a schema violation.
+  required: boolean;
+  check: (value: unknown) => string | null;
+};
+
+const isString = (v: unknown): string | null => (typeof v === 'string' ? null : 'not a string');
+// Strings that must match a format; other values fail like isString.
+function matches(pattern: RegExp, reason: string): FieldRule['check'] {
+  return (v) => (typeof v !== 'string' ? 'not a string' : pattern.test(v) ? null : reason);
+}
+
+// Runtime schema of a ProductRecord; each check returns a reason when the (non-null) value is invalid.
+export const RECORD_SCHEMA: FieldRule[] = [
+  {
+    field: 'productUrl',
+    required: true,
+    check: (v) => {
+      if (typeof v !== 'string') return 'not a string';
+      try {
+        return /^https?:$/.test(new URL(v).protocol) ? null : 'not an http(s) URL';
+      } catch {
+        return 'not a URL';
+      }
+    },
+  },
+  { field: 'target', required: true, check: isString },
+  { field: 'productName', required: true, check: isString },
+  { field: 'sku', required: true, check: matches(/^[A-Z0-9][A-Z0-9._/-]*$/i, 'contains spaces or unexpected characters') },
+  { field: 'mpn', required: false, check: isString },
+  { field: 'manufacturer', required: false, check: isString },
+  { field: 'price', required: true, check: matches(/^\$(\d{1,3}(,\d{3})*|\d+)\.\d{2}$/, 'not formatted as $x.xx') },
+  { field: 'stock', required: true, check: matches(/^-?\d+$/, 'not an integer count') },
+  { field: 'description', required: false, check: isString },
+  {
+    field: 'priceCents',
+    required: true,
+    check: (v) => (typeof v === 'number' && Number.isInteger(v) && v >= 0 ? null : 'not a non-negative integer'),
+  },
+  { field: 'stockQuantity', required: true, check: (v) => (Number.isInteger(v) ? null : 'not an integer') },
+  {
+    field: 'stockStatus',
+    required: true,
+    check: (v) => (typeof v === 'string' && ['in_stock', 'out_of_stock', 'backorder', 'unknown'].includes(v) ? null : 'unknown status'),
+  },
+];
+
+export function validateRecord(record: ProductRecord): FieldIssue[] {
+  const issues: FieldIssue[] = [];
+  for (const rule of RECORD_SCHEMA) {
+    const value = record[rule.field];
+    if (value === null || value === undefined) continue;
+    const reason = rule.check(value);
+    if (reason) issues.push({ productUrl: record.productUrl, field: rule.field, value, reason });
+  }
+  return issues;
+}
+
+export function stockStatusOf(stock: string | null, stockQuantity: number | null, record?: Pick<ProductRecord, 'apiDetails'>): StockStatus {
+  const api = record?.apiDetails;
+  if (api?.isInStock === false && api.isBackorderable) return 'backorder';
+  if (stockQuantity !== null) return stockQuantity > 0 ? 'in_stock' : 'out_of_stock';
+  if (api?.isInStock !== undefined && api.isInStock !== null) return api.isInStock ? 'in_stock' : 'out_of_stock';
+  if (!stock) return 'unknown';
+  if (/back\s*order/i.test(stock)) return 'backorder';
+  if (/out\s*of\s*stock|unavailable|sold\s*out/i.test(stock)) return 'out_of_stock';
+  if (/in\s*stock|available/i.test(stock)) return 'in_stock';
+  return 'unknown';
+}
+
+// Fills the typed fields derived from the scraped price/stock strings.
+export function normalizeRecord(record: RawProductRecord): ProductRecord {
+  const price = parsePriceToNumber(record.price);
+  const stockQuantity = parseStockToNumber(record.stock);
+  return {
+    ...record,
+    priceCents: price === null ? null : Math.round(price * 100),
+    stockQuantity,
+    stockStatus: stockStatusOf(record.stock, stockQuantity, record),
+  };
+}
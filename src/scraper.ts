@@ -0,0 +1,492 @@
+import { chromium, devices } from '@playwright/test';
+import type { Browser, BrowserContext, Page } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createCheckpointWriter, loadCheckpoint, removeCheckpoint } from './checkpoint';
+import type { TargetCheckpoint } from './checkpoint';
+import { loadAlertsConfig, runAlerts } from './alerts';
+import { listingUrlForTarget, selectTargets } from './config';
+import { AuthError, createSessionGuard, loginIfNeeded, storageStatePathForSite } from './auth';
+import type { SessionGuard } from './auth';
+import { readAssetLinks, withAssets } from './assets';
+import type { AssetLink } from './assets';
+import { writeExcel } from './excel';
+import { exportRecords } from './exporters';
+import { diffLatest, summarizeDiff } from './diff';
+import type { RunDiff } from './diff';
+import { appendHistoryRun, snapshotRun } from './history';
+import { loadIncrementalBaseline, planIncremental } from './incremental';
+import { captureItemsApi, recordsFromItemsApi } from './itemsApi';
+import { DEFAULT_OUTPUT_DIR, ensureOutputDir, readJson, saveJson } from './output';
+import { logger, runWithLogContext } from './logger';
+import { buildRunManifest, durationStats, startRunTracker, timePhase, writeRunManifest } from './metrics';
+import type { PhaseDurations, RunTracker, TargetMetrics } from './metrics';
+import { mapUrlsWithPages } from './pool';
+import { withPriceComparison } from './pricing';
+import { extractProductDetails } from './product';
+import { writeChangeReport, writeChangesSheet } from './report';
+import { DataQualityError, buildQualityReport } from './quality';
+import { recordedTarget, recordingDirForRun, startRecording, writeRecordingManifest } from './recording';
+import { RetryError, errorMessage, retryWithBackoff } from './retry';
+import { collectAllProductUrls } from './search';
+import type {
+  ExportConfig,
+  PaginationSummary,
+  ProductRecord,
+  ScrapeConfig,
+  ScrapeFailure,
+  ScrapeOptions,
+  ScrapeResult,
+  SiteConfig,
+  TargetConfig,
+  TargetResult,
+} from './types';
+
+export type BrowserOptions = {
+  headless?: boolean;
+  // Runs before the first page opens, e.g. to serve the context from a recorded HAR.
+  setupContext?: (context: BrowserContext) => Promise<void>;
+};
+
+// Desktop Chrome context with the same timeouts the Playwright specs use.
+async function newDesktopContext(browser: Browser): Promise<BrowserContext> {
+  const context = await browser.newContext({ ...devices['Desktop Chrome'], viewport: { width: 1280, height: 800 } });
+  context.setDefaultTimeout(30_000);
+  context.setDefaultNavigationTimeout(45_000);
+  return context;
+}
+
+// Opens a Desktop Chrome page and closes the browser afterwards.
+export async function withPage<T>(options: BrowserOptions, fn: (page: Page) => Promise<T>): Promise<T> {
+  const browser = await chromium.launch({ headless: options.headless ?? true });
+  try {
+    const context = await newDesktopContext(browser);
+    await options.setupContext?.(context);
+    const page = await context.newPage();
+    try {
+      return await fn(page);
+    } finally {
+      // Closing the context explicitly flushes HAR recordings before the browser goes away.
+      await context.close();
+    }
+  } finally {
+    await browser.close();
+  }
+}
+
+function outputPrefix(target: TargetConfig): string {
+  return target.outputPrefix || target.name;
+}
+
+async function loginPerSite(
+  page: Page,
+  config: ScrapeConfig,
+  targets: TargetConfig[],
+  options: ScrapeOptions,
+  fn: (site: SiteConfig, target: TargetConfig, session: SessionGuard) => Promise<void>,
+  phases: PhaseDurations = {},
+): Promise<void> {
+  const sessions = new Map<string, SessionGuard>();
+  for (const target of targets) {
+    const site = config.sites[target.site];
+    let session = sessions.get(target.site);
+    if (!session) {
+      // The session file is still written when reuse is off, so the next run can pick it up.
+      const storageStatePath = storageStatePathForSite(target.site, options.authDir);
+      await timePhase(phases, 'login', () => loginIfNeeded(page, site, { storageStatePath, reuseSession: options.reuseSession }));
+      session = createSessionGuard(site, { storageStatePath });
+      sessions.set(target.site, session);
+    }
+    await fn(site, target, session);
+  }
+}
+
+export async function collectTargetUrls(
+  page: Page,
+  site: SiteConfig,
+  target: TargetConfig,
+  options: ScrapeOptions = {},
+): Promise<{ urls: string[]; summary: PaginationSummary }> {
+  const outputDir = options.outputDir ?? DEFAULT_OUTPUT_DIR;
+  const listingUrl = listingUrlForTarget(site, target);
+  logger.info(`Target ${target.name}: ${listingUrl}`, { event: 'target_started', target: target.name, listingUrl });
+
+  const collected = await collectAllProductUrls(page, listingUrl, options.maxPages ?? target.maxPages);
+  await saveJson(`${outputPrefix(target)}_product_urls.json`, collected.urls, outputDir);
+  await saveJson(`${outputPrefix(target)}_search_pages.json`, collected.summary, outputDir);
+  return collected;
+}
+
+async function openProductPage(page: Page, url: string): Promise<void> {
+  await page.goto(url, { waitUntil: 'domcontentloaded' });
+  await page.waitForLoadState('networkidle');
+  // Wait for any product-specific marker
+  await page.locator('h1, h2.product-title, .product-details-info').first().waitFor({ timeout: 15000 }).catch(() => undefined);
+}
+
+function logRetry(url: string) {
+  return (err: unknown, attempt: number, delayMs: number) => {
+    logger.warn(`Attempt ${attempt} failed for ${url} (${errorMessage(err)}); retrying in ${delayMs}ms`, {
+      event: 'retry',
+      url,
+      attempt,
+      delayMs,
+      error: err,
+    });
+  };
+}
+
+async function scrapeProductWithRetry(
+  page: Page,
+  url: string,
+  target: TargetConfig,
+  options: ScrapeOptions,
+  session?: SessionGuard,
+): Promise<ProductRecord> {
+  return retryWithBackoff(
+    async () => {
+      await openProductPage(page, url);
+      // A logged-out page would show guest prices; re-authenticate and let the retry load it again.
+      await session?.check(page);
+      return extractProductDetails(page, target.name);
+    },
+    options,
+    logRetry(url),
+    (err) => !(err instanceof AuthError),
+  );
+}
+
+// Visits already scraped products from a separate context without the login cookies and stores the guest price
+// next to the account price. Products whose guest visit fails keep no comparison and are retried on resume.
+async function compareGuestPrices(
+  page: Page,
+  target: TargetConfig,
+  options: ScrapeOptions,
+  checkpoint: TargetCheckpoint,
+  saveCheckpoint: (url: string, record: ProductRecord) => Promise<void>,
+): Promise<void> {
+  const done = checkpoint.records;
+  const pending = checkpoint.productUrls.filter((u) => done[u] && !done[u].priceComparison);
+  if (pending.length === 0) return;
+  const browser = page.context().browser();
+  if (!browser) throw new Error('Price comparison needs a launched browser to open its guest context.');
+  const guestContext = await newDesktopContext(browser);
+  try {
+    const guestPage = await guestContext.newPage();
+    let compared = 0;
+    await mapUrlsWithPages(guestPage, pending, options, async (workerPage, url) => {
+      try {
+        const guest = await retryWithBackoff(
+          async () => {
+            await openProductPage(workerPage, url);
+            return extractProductDetails(workerPage, target.name);
+          },
+          options,
+          logRetry(url),
+        );
+        await saveCheckpoint(url, withPriceComparison(done[url], guest.price));
+      } catch (err) {
+        logger.warn(`Guest price for ${url} failed: ${errorMessage(err)}`, { target: target.name, url, error: err });
+      }
+      logger.info(`Compared guest price ${target.name} (${++compared}/${pending.length}): ${url}`, {
+        event: 'guest_price',
+        target: target.name,
+        url,
+        done: compared,
+        total: pending.length,
+      });
+    });
+  } finally {
+    await guestContext.close();
+  }
+}
+
+async function captureFailureScreenshot(page: Page, outputDir: string, target: TargetConfig, index: number): Promise<string | null> {
+  const screenshotPath = path.join(outputDir, 'failures', `${outputPrefix(target)}_${index + 1}.png`);
+  try {
+    await fs.mkdir(path.dirname(screenshotPath), { recursive: true });
+    await page.screenshot({ path: screenshotPath, fullPage: true });
+    return screenshotPath;
+  } catch {
+    return null;
+  }
+}
+
+export async function scrapeTarget(
+  page: Page,
+  site: SiteConfig,
+  target: TargetConfig,
+  options: ScrapeOptions = {},
+  session?: SessionGuard,
+  settings: Pick<ScrapeConfig, 'incremental' | 'workbook'> = {},
+): Promise<TargetResult> {
+  const outputDir = options.outputDir ?? DEFAULT_OUTPUT_DIR;
+  const phases: PhaseDurations = {};
+  const checkpointPath = path.join(outputDir, `${outputPrefix(target)}_checkpoint.json`);
+  let checkpoint = options.resume === false ? null : await loadCheckpoint(checkpointPath, target.name);
+  if (checkpoint) {
+    logger.info(
+      `Resuming ${target.name} from ${checkpointPath}: ${Object.keys(checkpoint.records).length}/${checkpoint.productUrls.length} done`,
+      { event: 'resume', target: target.name, done: Object.keys(checkpoint.records).length, total: checkpoint.productUrls.length },
+    );
+  }
+  const resumed = checkpoint ? Object.keys(checkpoint.records).length : 0;
+  // Read before URL collection rewrites the target's files; a resumed checkpoint already holds the carried-over records.
+  const baseline =
+    options.incremental && !checkpoint ? await loadIncrementalBaseline(`${outputPrefix(target)}_products.json`, outputDir) : null;
+  const capture = !checkpoint && options.mode === 'api' ? captureItemsApi(page) : null;
+  let pagination: PaginationSummary | null = null;
+  if (!checkpoint) {
+    try {
+      const collected = await timePhase(phases, 'collect', () => collectTargetUrls(page, site, target, options));
+      pagination = collected.summary;
+      checkpoint = { target: target.name, productUrls: collected.urls, records: {} };
+    } finally {
+      capture?.dispose();
+    }
+  }
+  const { productUrls, records: done } = checkpoint;
+  const saveCheckpoint = createCheckpointWriter(checkpointPath, checkpoint);
+
+  let apiCount = 0;
+  if (capture) {
+    const apiRecords = await timePhase(phases, 'itemsApi', () => recordsFromItemsApi(page, capture, productUrls, site, target.name));
+    apiCount = apiRecords.size;
+    const scrapedAt = new Date().toISOString();
+    for (const [url, record] of apiRecords) {
+      // The items API lists image URLs only; linked documents are captured for HTML-extracted products.
+      const links = (record.apiDetails?.images ?? []).map((imageUrl): AssetLink => ({ kind: 'image', url: imageUrl }));
+      const withFiles = options.assets ? await withAssets(page, record, links, outputDir) : record;
+      await saveCheckpoint(url, { ...withFiles, scrapedAt });
+    }
+    logger.info(`Items API covered ${apiCount}/${productUrls.length} ${target.name} products; the rest fall back to HTML extraction`, {
+      event: 'items_api',
+      target: target.name,
+      covered: apiCount,
+      total: productUrls.length,
+    });
+  }
+
+  let reused = 0;
+  if (baseline) {
+    const plan = planIncremental(productUrls, baseline, settings.incremental);
+    // Carried-over records reach the checkpoint file with the next product write.
+    for (const [url, record] of plan.reuse) {
+      if (done[url]) continue;
+      done[url] = record;
+      reused += 1;
+    }
+    logger.info(
+      `Incremental ${target.name}: ${plan.newCount} new, ${plan.watchedCount} watched, ${plan.staleCount} stale, ${plan.reuse.size} carried over`,
+      {
+        event: 'incremental_plan',
+        target: target.name,
+        new: plan.newCount,
+        watched: plan.watchedCount,
+        stale: plan.staleCount,
+        reused: plan.reuse.size,
+      },
+    );
+  }
+
+  const pending = productUrls.filter((u) => !done[u]);
+  const failures: ScrapeFailure[] = [];
+  const pageDurations: number[] = [];
+  let processed = productUrls.length - pending.length;
+  await timePhase(phases, 'products', () =>
+    mapUrlsWithPages(page, pending, options, async (workerPage, url) => {
+      const started = Date.now();
+      try {
+        let record = await scrapeProductWithRetry(workerPage, url, target, options, session);
+        pageDurations.push(Date.now() - started);
+        if (options.assets) record = await withAssets(workerPage, record, await readAssetLinks(workerPage), outputDir);
+        await saveCheckpoint(url, { ...record, scrapedAt: new Date().toISOString() });
+      } catch (err) {
+        // Rejected credentials fail every remaining URL too; abort and leave the checkpoint for --resume.
+        if (err instanceof AuthError) throw err;
+        const screenshotPath = await captureFailureScreenshot(workerPage, outputDir, target, productUrls.indexOf(url));
+        failures.push({
+          target: target.name,
+          productUrl: url,
+          attempts: err instanceof RetryError ? err.attempts : 1,
+          error: errorMessage(err),
+          screenshotPath,
+        });
+      }
+      logger.info(`Processed ${target.name} (${++processed}/${productUrls.length}): ${url}`, {
+        event: 'product',
+        target: target.name,
+        url,
+        done: processed,
+        total: productUrls.length,
+        durationMs: Date.now() - started,
+        ok: done[url] !== undefined,
+      });
+    }),
+  );
+
+  if (options.comparePrices) {
+    await timePhase(phases, 'comparePrices', () => compareGuestPrices(page, target, options, checkpoint, saveCheckpoint));
+  }
+
+  // Assemble in collection order so output stays deterministic across resumed and concurrent runs.
+  const records = productUrls.filter((u) => done[u]).map((u) => ({ ...done[u], collectedUrl: u }));
+  failures.sort((a, b) => productUrls.indexOf(a.productUrl) - productUrls.indexOf(b.productUrl));
+  await timePhase(phases, 'write', async () => {
+    await saveJson(`${outputPrefix(target)}_products.json`, records, outputDir);
+    await saveJson(`${outputPrefix(target)}_failures.json`, failures, outputDir);
+    const workbookRun = { runId: options.runId, targets: [target.name], failures: failures.length };
+    await writeExcel(records, `${outputPrefix(target)}_products.xlsx`, outputDir, workbookRun, settings.workbook);
+  });
+  // Failed URLs are reported in the failures file; the next run starts from a fresh URL collection.
+  await removeCheckpoint(checkpointPath);
+  const metrics: TargetMetrics = {
+    target: target.name,
+    pagesDiscovered: pagination?.pagesDiscovered ?? null,
+    totalResults: pagination?.totalResults ?? null,
+    urlsCollected: productUrls.length,
+    scraped: apiCount + pageDurations.length,
+    reused,
+    resumed,
+    failed: failures.length,
+    productPages: durationStats(pageDurations),
+    phases,
+  };
+  return { target: target.name, productUrls, records, failures, metrics };
+}
+
+// Collects product URLs for every selected target without visiting product pages.
+export async function collectUrls(page: Page, config: ScrapeConfig, options: ScrapeOptions = {}): Promise<string[]> {
+  const outputDir = options.outputDir ?? DEFAULT_OUTPUT_DIR;
+  await ensureOutputDir(outputDir);
+  const allUrls = new Set<string>();
+  await loginPerSite(page, config, selectTargets(config, options.targets), options, async (site, target) => {
+    const { urls } = await collectTargetUrls(page, site, target, options);
+    urls.forEach((u) => allUrls.add(u));
+  });
+  const urls = Array.from(allUrls);
+  await saveJson('product_urls_all.json', urls, outputDir);
+  return urls;
+}
+
+// Full run: URLs and product details for every selected target, plus the combined outputs.
+// Every run, including a failed one, leaves its manifest in run.json and its metrics in run_metrics.json.
+export async function scrape(page: Page, config: ScrapeConfig, scrapeOptions: ScrapeOptions = {}): Promise<ScrapeResult> {
+  const runId = scrapeOptions.runId ?? new Date().toISOString();
+  const options: ScrapeOptions = { ...scrapeOptions, runId };
+  const outputDir = options.outputDir ?? DEFAULT_OUTPUT_DIR;
+  const tracker = startRunTracker(runId, options);
+  return runWithLogContext({ runId }, async () => {
+    logger.info(`Run ${runId} started`, { event: 'run_started' });
+    let result: Omit<ScrapeResult, 'manifest'>;
+    try {
+      result = await runScrape(page, config, options, tracker);
+    } catch (err) {
+      await writeRunManifest(buildRunManifest(tracker, new Date(), err), outputDir, config.metrics);
+      throw err;
+    }
+    const manifest = buildRunManifest(tracker);
+    await writeRunManifest(manifest, outputDir, config.metrics);
+    return { ...result, manifest };
+  });
+}
+
+async function runScrape(
+  page: Page,
+  config: ScrapeConfig,
+  options: ScrapeOptions,
+  tracker: RunTracker,
+): Promise<Omit<ScrapeResult, 'manifest'>> {
+  const runId = tracker.runId;
+  const { phases } = tracker;
+  const outputDir = options.outputDir ?? DEFAULT_OUTPUT_DIR;
+  await ensureOutputDir(outputDir);
+  const targets = selectTargets(config, options.targets);
+  // Loaded up front so a broken alerts config fails the run before any page is scraped.
+  const alertsConfig = await loadAlertsConfig(options.alertsConfig);
+  const recordingDir = options.record ? recordingDirForRun(runId, outputDir) : null;
+  if (recordingDir) await startRecording(page.context(), config, recordingDir);
+  const targetResults: TargetResult[] = [];
+  await loginPerSite(
+    page,
+    config,
+    targets,
+    options,
+    async (site, target, session) => {
+      const result = await timePhase(phases, 'targets', () => scrapeTarget(page, site, target, options, session, config));
+      tracker.targets.push(result.metrics);
+      targetResults.push(result);
+    },
+    phases,
+  );
+  if (recordingDir) {
+    await writeRecordingManifest(recordingDir, {
+      runId,
+      recordedAt: new Date().toISOString(),
+      targets: targetResults.map((r, i) => recordedTarget(config, targets[i], r.productUrls, options)),
+    });
+  }
+
+  // Combined outputs keep the historical filenames; a product listed by several targets appears once per target.
+  const records = targetResults.flatMap((r) => r.records);
+  const failures = targetResults.flatMap((r) => r.failures);
+  const quality = buildQualityReport(runId, records, config.quality);
+  tracker.qualityScore = quality.score;
+  await timePhase(phases, 'write', async () => {
+    await saveJson('product_urls_all.json', Array.from(new Set(targetResults.flatMap((r) => r.productUrls))), outputDir);
+    await saveJson('products_all.json', records, outputDir);
+    await saveJson('failures_all.json', failures, outputDir);
+    const workbookRun = { runId, targets: targets.map((t) => t.name), failures: failures.length, qualityScore: quality.score };
+    await writeExcel(records, 'products_all.xlsx', outputDir, workbookRun, config.workbook);
+    for (const exportConfig of config.exports ?? []) await exportRecords(records, exportConfig, outputDir);
+  });
+  if (failures.length) {
+    logger.warn(`${failures.length} product URL(s) failed; see ${path.join(outputDir, 'failures_all.json')}`, {
+      event: 'failures',
+      failed: failures.length,
+    });
+  }
+
+  // A run that fails the quality gate keeps its outputs for inspection but stays out of history and alerts.
+  await saveJson('quality_report.json', quality, outputDir);
+  logger.info(`Data quality score ${quality.score}${quality.passed ? '' : ` (failed: ${quality.violations.join('; ')})`}`, {
+    event: 'quality',
+    score: quality.score,
+    passed: quality.passed,
+  });
+  if (!quality.passed && options.qualityGate !== false) throw new DataQualityError(quality);
+
+  // A page-capped run only sees part of each listing and would report the rest as removed.
+  let changes: RunDiff | null = null;
+  if (options.maxPages === undefined) {
+    changes = await timePhase(phases, 'history', async () => {
+      const run = snapshotRun(runId, targets.map((t) => t.name), records, failures);
+      const history = await appendHistoryRun(run, outputDir, config.history);
+      const diff = diffLatest(history);
+      await saveJson('changes_latest.json', diff, outputDir);
+      if (diff) {
+        await writeChangeReport(diff, outputDir);
+        await writeChangesSheet(diff, 'products_all.xlsx', outputDir);
+      }
+      if (alertsConfig) {
+        const previous = history.runs.length > 1 ? history.runs[history.runs.length - 2] : null;
+        await runAlerts(alertsConfig, run, previous, { outputDir, dryRun: options.alertsDryRun });
+      }
+      return diff;
+    });
+    logger.info(`Changes since previous run: ${changes ? summarizeDiff(changes) : 'none'}`, { event: 'changes' });
+  }
+  return { runId, records, failures, changes, recordingDir, quality };
+}
+
+// Re-exports previously scraped JSON records to an Excel workbook.
+export async function exportExcel(inputFile: string, excelFilename: string, outputDir: string = DEFAULT_OUTPUT_DIR): Promise<string> {
+  const records = await readJson<ProductRecord[]>(path.resolve(inputFile));
+  return writeExcel(records, excelFilename, outputDir);
+}
+
+// Re-exports previously scraped JSON records in any registered format (csv, ndjson, ...).
+export async function exportFile(inputFile: string, exportConfig: ExportConfig, outputDir: string = DEFAULT_OUTPUT_DIR): Promise<string> {
+  const records = await readJson<ProductRecord[]>(path.resolve(inputFile));
+  return exportRecords(records, exportConfig, outputDir);
+}
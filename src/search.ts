@@ -0,0 +1,107 @@
+import type { Page } from '@playwright/test';
+import { logger } from './logger';
+import type { PaginationSummary, SearchPageStats } from './types';
+
+// Safety cap for the paginator in case the site keeps serving the same results for any page index.
+export const MAX_PAGES = 50;
+
+export async function collectProductUrlsForPage(page: Page, listingUrl: string, pageIndex: number): Promise<string[]> {
+  const pageUrl = new URL(listingUrl);
+  if (pageIndex > 1) pageUrl.searchParams.set('page', String(pageIndex));
+  const url = pageUrl.toString();
+  await page.goto(url, { waitUntil: 'domcontentloaded' });
+  // Some pages keep network requests open; wait for product grid/tile instead of networkidle.
+  await page
+    .locator('a.facets-item-cell-grid-link-title[href], a.facets-item-cell-grid-link-image[href], .facets-item-cell')
+    .first()
+    .waitFor({ timeout: 30000 })
+    .catch(() => undefined);
+
+  const byImage = await page.$$eval('a.facets-item-cell-grid-link-image[href]', (as) =>
+    Array.from(new Set(as.map((a) => (a as HTMLAnchorElement).href)))
+  ).catch(() => [] as string[]);
+  const byTitle = await page.$$eval('a.facets-item-cell-grid-link-title[href]', (as) =>
+    Array.from(new Set(as.map((a) => (a as HTMLAnchorElement).href)))
+  ).catch(() => [] as string[]);
+  // Fallback: all anchors filtered by pathname heuristics
+  const allHrefs = await page.$$eval('a[href]', (as) => Array.from(new Set(as.map((a) => (a as HTMLAnchorElement).href))));
+  const byHeuristic = allHrefs.filter((u) => {
+    try {
+      const l = new URL(u);
+      if (!/https?:/i.test(l.protocol)) return false;
+      if (l.pathname.includes('/search')) return false;
+      if (l.pathname.includes('/checkout')) return false;
+      if (l.hash) return false;
+      return /\/product\//i.test(l.pathname) || /\/p\//i.test(l.pathname) || /\/sku\//i.test(l.pathname) || /\/prod\//i.test(l.pathname);
+    } catch {
+      return false;
+    }
+  });
+  const unique = Array.from(new Set([...byTitle, ...byImage, ...byHeuristic]));
+  logger.info(`Page ${pageIndex}: found ${unique.length} product URLs`, { event: 'search_page', pageIndex, urls: unique.length });
+  return unique;
+}
+
+export async function readPagerInfo(page: Page): Promise<{ totalResults: number | null; pagerPageCount: number | null }> {
+  // SuiteCommerce renders the result count on the browse title and the page links in the pager.
+  const totalResults = await page
+    .$eval('.facets-facet-browse-title', (el) => {
+      const fromAttr = Number.parseInt(el.getAttribute('data-quantity') || '', 10);
+      if (!Number.isNaN(fromAttr)) return fromAttr;
+      const m = (el.textContent || '').replace(/,/g, '').match(/(\d+)\s+Results?/i);
+      return m ? Number.parseInt(m[1], 10) : null;
+    })
+    .catch(() => null);
+  const pagerPageCount = await page
+    .$$eval('.global-views-pagination-links a, .global-views-pagination-links-number', (els) => {
+      const numbers = els
+        .map((el) => Number.parseInt((el.textContent || '').trim(), 10))
+        .filter((n) => !Number.isNaN(n));
+      return numbers.length ? Math.max(...numbers) : null;
+    })
+    .catch(() => null);
+  return { totalResults, pagerPageCount };
+}
+
+export async function collectAllProductUrls(
+  page: Page,
+  listingUrl: string,
+  maxPages: number = MAX_PAGES,
+): Promise<{ urls: string[]; summary: PaginationSummary }> {
+  const allUrls = new Set<string>();
+  const pages: SearchPageStats[] = [];
+  let totalResults: number | null = null;
+  let pagerPageCount: number | null = null;
+
+  for (let i = 1; i <= maxPages; i += 1) {
+    const urls = await collectProductUrlsForPage(page, listingUrl, i);
+    if (i === 1) {
+      ({ totalResults, pagerPageCount } = await readPagerInfo(page));
+      logger.info(`Pager reports ${totalResults ?? '?'} results across ${pagerPageCount ?? '?'} pages`, {
+        event: 'pager',
+        totalResults,
+        pagerPageCount,
+      });
+    }
+    const newUrls = urls.filter((u) => !allUrls.has(u));
+    newUrls.forEach((u) => allUrls.add(u));
+    // A page with no new URLs means we ran past the end (SCA repeats or empties out-of-range pages).
+    if (newUrls.length === 0) break;
+    pages.push({ pageIndex: i, urlCount: urls.length, newUrlCount: newUrls.length });
+  }
+
+  const summary: PaginationSummary = {
+    totalResults,
+    pagerPageCount,
+    pagesDiscovered: pages.length,
+    urlsCollected: allUrls.size,
+    pages,
+  };
+  if (pagerPageCount !== null && pagerPageCount !== summary.pagesDiscovered) {
+    logger.warn(`Pager reports ${pagerPageCount} pages but ${summary.pagesDiscovered} pages yielded products`);
+  }
+  if (totalResults !== null && totalResults !== summary.urlsCollected) {
+    logger.warn(`Pager reports ${totalResults} results but ${summary.urlsCollected} product URLs were collected`);
+  }
+  return { urls: Array.from(allUrls), summary };
+}
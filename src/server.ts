@@ -0,0 +1,240 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as path from 'path';
+import { renderDashboard } from './dashboard';
+import { loadHistory, productKey } from './history';
+import { logger } from './logger';
+import { DEFAULT_OUTPUT_DIR, readJson } from './output';
+import { errorMessage } from './retry';
+import type { ProductRecord, ScrapeResult } from './types';
+
+export const DEFAULT_SERVER_PORT = 3000;
+// Loopback only by default: the API can start scrapes with the configured credentials.
+export const DEFAULT_SERVER_HOST = '127.0.0.1';
+const MAX_PAGE_SIZE = 500;
+
+export type ServerOptions = {
+  port?: number;
+  host?: string;
+  // Directory holding products_all.json and price_history.json.
+  outputDir?: string;
+  // Runs a full scrape for POST /api/scrape; the endpoint answers 501 when omitted.
+  runScrape?: () => Promise<ScrapeResult>;
+};
+
+export type ScrapeStatus = {
+  running: boolean;
+  startedAt: string | null;
+  finishedAt: string | null;
+  runId: string | null;
+  products: number | null;
+  error: string | null;
+};
+
+export type PricePoint = {
+  runId: string;
+  recordedAt: string;
+  price: number | null;
+  stock: number | null;
+};
+
+export type RunSummary = {
+  runId: string;
+  recordedAt: string;
+  targets: string[];
+  products: number;
+  failedUrls: number;
+};
+
+type Route = {
+  method: string;
+  pattern: RegExp;
+  handle: (url: URL, match: RegExpMatchArray) => Promise<[number, unknown]>;
+};
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+async function loadProducts(outputDir: string): Promise<ProductRecord[]> {
+  try {
+    return await readJson<ProductRecord[]>(path.join(outputDir, 'products_all.json'));
+  } catch {
+    return [];
+  }
+}
+
+// Case-insensitive match on every word of the query against name, SKU, MPN, manufacturer and description.
+export function searchProducts(records: ProductRecord[], query: string, target?: string): ProductRecord[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return records.filter((rec) => {
+    if (target && rec.target !== target) return false;
+    const haystack = [rec.productName, rec.sku, rec.mpn, rec.manufacturer, rec.description].filter(Boolean).join(' ').toLowerCase();
+    return words.every((w) => haystack.includes(w));
+  });
+}
+
+function pageParam(url: URL, name: string, fallback: number, max: number): number {
+  const raw = url.searchParams.get(name);
+  if (raw === null) return fallback;
+  const n = Number.parseInt(raw, 10);
+  if (Number.isNaN(n) || n < 0) throw new HttpError(400, `"${name}" must be a non-negative integer`);
+  return Math.min(n, max);
+}
+
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, `Malformed URL escape in "${value}"`);
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json; charset=utf-8', 'cache-control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+// Serves the REST API under /api and the dashboard at /; every request reads the current files from outputDir.
+// DNS rebinding points an attacker's hostname at this address, so the page's requests arrive with that name as Host;
+// only the address the connection came in on (or localhost for a loopback address) and its port are accepted. Bound
+// to 0.0.0.0, that is the interface address the client used, so hostnames pointing at the machine are rejected too.
+function isBoundHost(req: http.IncomingMessage): boolean {
+  const { localAddress, localPort } = req.socket;
+  if (!req.headers.host || !localAddress) return false;
+  let host: URL;
+  try {
+    host = new URL(`http://${req.headers.host}`);
+  } catch {
+    return false;
+  }
+  if (Number(host.port || 80) !== localPort) return false;
+  const hostname = host.hostname.replace(/^\[|\]$/g, '');
+  const address = localAddress.replace(/^::ffff:/, '');
+  const loopback = address === '::1' || address.startsWith('127.');
+  return hostname === address || (loopback && hostname === 'localhost');
+}
+
+export function createRequestHandler(options: ServerOptions = {}): http.RequestListener {
+  const outputDir = options.outputDir ?? DEFAULT_OUTPUT_DIR;
+  const status: ScrapeStatus = { running: false, startedAt: null, finishedAt: null, runId: null, products: null, error: null };
+
+  const routes: Route[] = [
+    {
+      method: 'GET',
+      pattern: /^\/api\/products\/?$/,
+      handle: async (url) => {
+        const target = url.searchParams.get('target') ?? undefined;
+        const matches = searchProducts(await loadProducts(outputDir), url.searchParams.get('q') ?? '', target);
+        const offset = pageParam(url, 'offset', 0, Number.MAX_SAFE_INTEGER);
+        const limit = pageParam(url, 'limit', 100, MAX_PAGE_SIZE);
+        return [200, { total: matches.length, offset, limit, items: matches.slice(offset, offset + limit) }];
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/products\/([^/]+)\/?$/,
+      handle: async (_url, match) => {
+        const sku = decodeParam(match[1]);
+        const records = (await loadProducts(outputDir)).filter((r) => r.sku && r.sku.toUpperCase() === sku.toUpperCase());
+        if (records.length === 0) throw new HttpError(404, `No product with SKU ${sku}`);
+        const key = productKey(records[0]);
+        const { runs } = await loadHistory(outputDir);
+        const history: PricePoint[] = runs
+          .filter((run) => run.products[key])
+          .map((run) => {
+            const { price, stock } = run.products[key];
+            return { runId: run.runId, recordedAt: run.recordedAt, price, stock };
+          });
+        return [200, { sku: records[0].sku, records, history }];
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/runs\/?$/,
+      handle: async () => {
+        const { runs } = await loadHistory(outputDir);
+        const summaries: RunSummary[] = runs
+          .map((run) => ({
+            runId: run.runId,
+            recordedAt: run.recordedAt,
+            targets: run.targets,
+            products: Object.keys(run.products).length,
+            failedUrls: run.failedUrls.length,
+          }))
+          .reverse();
+        return [200, summaries];
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/scrape\/?$/,
+      handle: async () => [200, status],
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/scrape\/?$/,
+      handle: async () => {
+        const { runScrape } = options;
+        if (!runScrape) throw new HttpError(501, 'This server was started without scrape support');
+        if (status.running) throw new HttpError(409, `A scrape is already running since ${status.startedAt}`);
+        Object.assign(status, { running: true, startedAt: new Date().toISOString(), finishedAt: null, error: null });
+        runScrape()
+          .then((result) => Object.assign(status, { runId: result.runId, products: result.records.length }))
+          .catch((err) => {
+            status.error = errorMessage(err);
+            logger.warn(`Scrape triggered from the API failed: ${status.error}`);
+          })
+          .finally(() => Object.assign(status, { running: false, finishedAt: new Date().toISOString() }));
+        return [202, status];
+      },
+    },
+  ];
+
+  return (req, res) => {
+    if (!isBoundHost(req)) {
+      sendJson(res, 403, { error: 'Host header does not match the address this server listens on' });
+      return;
+    }
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+    if (method === 'GET' && (url.pathname === '/' || url.pathname === '/index.html')) {
+      res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+      res.end(renderDashboard());
+      return;
+    }
+    // A JSON content type needs a CORS preflight, so other web pages cannot start scrapes with a plain form post.
+    if (method !== 'GET' && !String(req.headers['content-type'] ?? '').startsWith('application/json')) {
+      sendJson(res, 415, { error: 'Send requests with content-type: application/json' });
+      return;
+    }
+    const candidates = routes.filter((r) => r.pattern.test(url.pathname));
+    const route = candidates.find((r) => r.method === method);
+    if (!route) {
+      sendJson(res, candidates.length ? 405 : 404, { error: candidates.length ? `${method} not allowed` : 'Not found' });
+      return;
+    }
+    route
+      .handle(url, url.pathname.match(route.pattern) as RegExpMatchArray)
+      .then(([code, body]) => sendJson(res, code, body))
+      .catch((err) => sendJson(res, err instanceof HttpError ? err.status : 500, { error: errorMessage(err) }));
+  };
+}
+
+export async function startServer(options: ServerOptions = {}): Promise<{ server: http.Server; url: string }> {
+  const server = http.createServer(createRequestHandler(options));
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? DEFAULT_SERVER_PORT, options.host ?? DEFAULT_SERVER_HOST, () => resolve());
+  });
+  const { address, port } = server.address() as AddressInfo;
+  const url = `http://${address.includes(':') ? `[${address}]` : address}:${port}`;
+  logger.info(`Dashboard and API listening on ${url}`);
+  return { server, url };
+}
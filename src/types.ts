@@ -0,0 +1,252 @@
+import type { RunDiff } from './diff';
+import type { RunManifest, TargetMetrics } from './metrics';
+import type { QualityReport } from './quality';
+
+export type SiteConfig = {
+  baseUrl: string;
+  loginUrl: string;
+  emailEnv?: string;
+  passwordEnv?: string;
+  // Header elements that only render for a logged-in / logged-out customer; SCA defaults when omitted.
+  loggedInSelector?: string;
+  loggedOutSelector?: string;
+};
+
+export type TargetConfig = {
+  name: string;
+  site: string;
+  // Exactly one of keywords / categoryUrl describes the listing to paginate.
+  keywords?: string;
+  categoryUrl?: string;
+  maxPages?: number;
+  outputPrefix?: string;
+};
+
+// Limits a run's data must stay within; rates are fractions between 0 and 1.
+export type QualityThresholds = {
+  // Maximum share of records with a null value, per field.
+  maxNullRate?: Partial<Record<string, number>>;
+  // Maximum share of records with at least one schema violation.
+  maxInvalidRate?: number;
+  // Maximum number of SKUs that appear on more than one product URL within a target.
+  maxDuplicateSkus?: number;
+  minScore?: number;
+};
+
+// How an incremental run decides which already known products to revisit.
+export type IncrementalConfig = {
+  // Known products whose record is older than this are scraped again (default 24).
+  staleAfterHours?: number;
+  // SKUs revisited on every incremental run regardless of age.
+  watchSkus?: string[];
+};
+
+// How much per-run history the Excel workbooks keep before moving it to the archive.
+export type WorkbookRetention = {
+  // Runs kept in a workbook's History sheet (default 30).
+  historyRuns?: number;
+  // Rows per archive workbook before a new one is started (default 100000).
+  archiveMaxRows?: number;
+  // Archive workbooks kept per output workbook; the oldest are deleted (default 10).
+  archiveMaxFiles?: number;
+};
+
+// How many runs price_history.json keeps; each run stores every product, so an unbounded file keeps growing.
+export type HistoryRetention = {
+  // Most recent runs kept; older ones are dropped when a run is appended (default 180).
+  maxRuns?: number;
+};
+
+// How many runs run_metrics.json keeps; scheduled runs append one entry each, forever without a cap.
+export type MetricsRetention = {
+  // Most recent runs kept; older ones are dropped when a run is appended (default 1000).
+  maxRuns?: number;
+};
+
+// An extra output file written from the combined records after every run.
+export type ExportConfig = {
+  // Registered exporter: 'csv', 'ndjson' or 'xlsx' unless more are plugged in.
+  format: string;
+  // File inside the output dir; defaults to products_all.<extension>.
+  filename?: string;
+  // Canonical column keys (see columnDefs) in output order; all columns when omitted.
+  columns?: string[];
+  bom?: boolean;
+};
+
+export type ScrapeConfig = {
+  sites: Record<string, SiteConfig>;
+  targets: TargetConfig[];
+  quality?: QualityThresholds;
+  incremental?: IncrementalConfig;
+  workbook?: WorkbookRetention;
+  history?: HistoryRetention;
+  metrics?: MetricsRetention;
+  exports?: ExportConfig[];
+};
+
+export type ExtractedField = 'productName' | 'sku' | 'mpn' | 'manufacturer' | 'price' | 'stock' | 'description';
+
+// Which extraction strategy produced a field: SuiteCommerce items API, JSON-LD, schema.org microdata,
+// dedicated DOM element, or innerText regex.
+export type FieldSource = 'api' | 'jsonld' | 'microdata' | 'dom' | 'regex';
+
+export type MatrixOption = {
+  internalId: number | null;
+  sku: string | null;
+  // custitem* option fields of the matrix child, e.g. size or color.
+  options: Record<string, string>;
+  inStock: boolean | null;
+  quantityAvailable: number | null;
+};
+
+// Extra item data only available from the SuiteCommerce items API.
+export type ItemApiDetails = {
+  internalId: number | null;
+  matrixOptions: MatrixOption[];
+  images: string[];
+  categories: string[];
+  priceLevels: Record<string, number>;
+  priceSchedule: Array<{ minimumquantity?: number; maximumquantity?: number; price?: number; price_formatted?: string }>;
+  isInStock: boolean | null;
+  isBackorderable: boolean | null;
+  isPurchasable: boolean | null;
+};
+
+// Anonymous vs logged-in price of the same product (comparePrices scrape option).
+export type PriceComparison = {
+  guestPrice: string | null;
+  accountPrice: string | null;
+  // guestPrice minus accountPrice; positive when the account pays less. Null when either price is missing.
+  discountCents: number | null;
+  discountPercent: number | null;
+};
+
+export type AssetKind = 'image' | 'document';
+
+// A downloaded product image or linked document (assets scrape option).
+export type ProductAsset = {
+  kind: AssetKind;
+  url: string;
+  // Relative to the output directory, e.g. assets/<sku>/<sha256 prefix>.jpg; shared by identical content.
+  path: string;
+  sha256: string;
+  contentType: string;
+  bytes: number;
+};
+
+export type StockStatus = 'in_stock' | 'out_of_stock' | 'backorder' | 'unknown';
+
+export type ProductRecord = {
+  target: string;
+  productUrl: string;
+  // The search-result URL the record was scraped from; productUrl is where the page ended up after redirects.
+  collectedUrl?: string;
+  productName: string | null;
+  sku: string | null;
+  mpn: string | null;
+  manufacturer: string | null;
+  price: string | null;
+  stock: string | null;
+  description: string | null;
+  // Typed values normalized from price/stock (see normalizeRecord).
+  priceCents: number | null;
+  stockQuantity: number | null;
+  stockStatus: StockStatus;
+  fieldSources: Partial<Record<ExtractedField, FieldSource>>;
+  // Present when the record came from the items API ('api' scrape mode).
+  apiDetails?: ItemApiDetails;
+  // When the product page (or items API) was last read; records carried over by incremental runs keep theirs.
+  scrapedAt?: string;
+  // Present when the run also scraped the product anonymously (comparePrices).
+  priceComparison?: PriceComparison;
+  // Present when the run downloaded product images and documents (assets).
+  assets?: ProductAsset[];
+};
+
+// A record as extracted, before normalizeRecord adds the typed fields.
+export type RawProductRecord = Omit<ProductRecord, 'priceCents' | 'stockQuantity' | 'stockStatus'>;
+
+export type SearchPageStats = {
+  pageIndex: number;
+  urlCount: number;
+  newUrlCount: number;
+};
+
+export type PaginationSummary = {
+  totalResults: number | null;
+  pagerPageCount: number | null;
+  pagesDiscovered: number;
+  urlsCollected: number;
+  pages: SearchPageStats[];
+};
+
+export type ScrapeFailure = {
+  target: string;
+  productUrl: string;
+  attempts: number;
+  error: string;
+  screenshotPath: string | null;
+};
+
+export type TargetResult = {
+  target: string;
+  productUrls: string[];
+  records: ProductRecord[];
+  failures: ScrapeFailure[];
+  metrics: TargetMetrics;
+};
+
+export type ScrapeResult = {
+  runId: string;
+  records: ProductRecord[];
+  failures: ScrapeFailure[];
+  // Changes against the previous run in the history store; null when the run was not recorded.
+  changes: RunDiff | null;
+  // Where the session was recorded for offline replay, when options.record was set.
+  recordingDir: string | null;
+  quality: QualityReport;
+  // What was written to run.json.
+  manifest: RunManifest;
+};
+
+export type ScrapeMode = 'html' | 'api';
+
+export type ScrapeOptions = {
+  // Identifies the run in workbooks and history; scrape() generates one when omitted.
+  runId?: string;
+  // Directory for JSON/Excel outputs; defaults to ./data.
+  outputDir?: string;
+  // Caps pagination for every target (e.g. 1 for a quick page-1 run); overrides target.maxPages.
+  maxPages?: number;
+  // Only run the named targets; all configured targets when omitted.
+  targets?: string[];
+  // Product pages scraped in parallel within the logged-in browser context.
+  concurrency?: number;
+  // Minimum delay between requests to the same host across all workers.
+  politenessDelayMs?: number;
+  // Extra attempts per product URL, with exponential backoff starting at retryDelayMs.
+  retries?: number;
+  retryDelayMs?: number;
+  // 'api' maps SuiteCommerce items API responses to records and only visits product pages the API did not cover.
+  mode?: ScrapeMode;
+  // Alert rules evaluated after the run (default alerts.config.json; skipped when the file does not exist).
+  alertsConfig?: string;
+  alertsDryRun?: boolean;
+  // Throw DataQualityError when the run breaks the config's quality thresholds (default true).
+  qualityGate?: boolean;
+  // Save every site response of the run under <outputDir>/recordings/<runId> for offline replay.
+  record?: boolean;
+  // Continue from a target's checkpoint file when one is left over from a crashed run (default true).
+  resume?: boolean;
+  // Only scrape new, watched and stale products and carry the other records over from the previous run.
+  incremental?: boolean;
+  // Also visit every product in a separate anonymous browser context and record guest vs account price.
+  comparePrices?: boolean;
+  // Directory holding each site's saved login session (<authDir>/<siteKey>.json); defaults to ./.auth.
+  authDir?: string;
+  // Restore the saved session instead of logging in when it is still valid (default true); false always logs in.
+  reuseSession?: boolean;
+  // Download product images and linked documents into <outputDir>/assets/<sku>/.
+  assets?: boolean;
+};
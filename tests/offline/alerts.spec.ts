@@ -0,0 +1,151 @@
+import { test, expect } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  configureLogging,
+  createNotifier,
+  dedupeAlerts,
+  evaluateAlerts,
+  loadAlertsConfig,
+  loadAlertsState,
+  registerNotifier,
+  runAlerts,
+} from '../../src';
+import type { AlertRule, HistoryRun, NotifierConfig, ProductSnapshot } from '../../src';
+
+const snapshot = (sku: string, productName: string, price: number | null, stock: number | null): ProductSnapshot => ({
+  sku,
+  productUrl: `https://www.medstatsupplies.com/${sku}`,
+  productName,
+  price,
+  stock,
+  targets: ['bluestar'],
+});
+
+const run = (runId: string, products: ProductSnapshot[]): HistoryRun => ({
+  runId,
+  recordedAt: '2026-03-02T12:00:00.000Z',
+  targets: ['bluestar'],
+  products: Object.fromEntries(products.map((p) => [`sku:${p.sku}`, p])),
+  failedUrls: [],
+});
+
+const rules: AlertRule[] = [
+  { name: 'cheap gauze', namePattern: 'gauze', condition: { field: 'price', op: '<', value: 5 } },
+  { name: 'low stock', sku: 'tst-10pd', condition: { field: 'stock', op: '<=', value: 10 } },
+  { name: 'price jump', sku: ['GAU-01', 'TST-10PD'], condition: { field: 'priceDeltaPercent', op: '>=', value: 10 } },
+];
+
+const previous = run('r1', [snapshot('GAU-01', 'Sterile Gauze Pads', 4, 100), snapshot('TST-10PD', '10 Panel Dip Card', 90, 20)]);
+const current = run('r2', [snapshot('GAU-01', 'Sterile Gauze Pads', 4.5, 100), snapshot('TST-10PD', '10 Panel Dip Card', 99, 5)]);
+
+test.describe('evaluateAlerts', () => {
+  test('matches rules by SKU or name pattern and compares the field', () => {
+    const alerts = evaluateAlerts(rules, current, previous);
+    expect(alerts.map((a) => [a.rule, a.sku, a.actual])).toEqual([
+      ['cheap gauze', 'GAU-01', 4.5],
+      ['low stock', 'TST-10PD', 5],
+      ['price jump', 'GAU-01', 12.5],
+      ['price jump', 'TST-10PD', 10],
+    ]);
+  });
+
+  test('compares stock shown only as text as 0 or 1', () => {
+    const textOnly = (sku: string, stockStatus: ProductSnapshot['stockStatus']) => ({ ...snapshot(sku, 'Dip Card', 90, null), stockStatus });
+    const stockRules: AlertRule[] = [
+      { name: 'sold out', sku: ['TST-10PD', 'TST-12PD'], condition: { field: 'stock', op: '<=', value: 0 } },
+      { name: 'available', sku: ['TST-10PD', 'TST-12PD'], condition: { field: 'stock', op: '>', value: 0 } },
+    ];
+    const textRun = run('r2', [textOnly('TST-10PD', 'out_of_stock'), textOnly('TST-12PD', 'in_stock'), textOnly('TST-14PD', 'unknown')]);
+    expect(evaluateAlerts(stockRules, textRun, null).map((a) => [a.rule, a.sku])).toEqual([
+      ['sold out', 'TST-10PD'],
+      ['available', 'TST-12PD'],
+    ]);
+  });
+
+  test('skips price deltas without a previous run', () => {
+    expect(evaluateAlerts(rules, current, null).map((a) => a.rule)).toEqual(['cheap gauze', 'low stock']);
+  });
+});
+
+test.describe('dedupeAlerts', () => {
+  test('sends each alert once while its condition holds and again after it cleared', () => {
+    const [cheap, lowStock] = evaluateAlerts(rules, current, null);
+    const first = dedupeAlerts([cheap, lowStock], { active: {} }, { ...current, runId: 'r2' });
+    expect(first.fresh).toEqual([cheap, lowStock]);
+
+    const second = dedupeAlerts([cheap], first.nextState, { ...current, runId: 'r3' });
+    expect(second.fresh).toEqual([]);
+    expect(second.nextState.active).toEqual({ 'cheap gauze::sku:GAU-01': 'r2' });
+
+    expect(dedupeAlerts([cheap, lowStock], second.nextState, { ...current, runId: 'r4' }).fresh).toEqual([lowStock]);
+  });
+
+  test('keeps the alerts of products missing from the run', () => {
+    const [cheap, lowStock] = evaluateAlerts(rules, current, null);
+    const first = dedupeAlerts([cheap, lowStock], { active: {} }, current);
+    const gauzeOnly = run('r3', [snapshot('GAU-01', 'Sterile Gauze Pads', 4.5, 100)]);
+
+    const second = dedupeAlerts([cheap], first.nextState, gauzeOnly);
+    expect(second.nextState.active).toEqual(first.nextState.active);
+    expect(dedupeAlerts([cheap, lowStock], second.nextState, { ...current, runId: 'r4' }).fresh).toEqual([]);
+  });
+});
+
+test.describe('runAlerts', () => {
+  let dir: string;
+  const delivered: string[][] = [];
+  let webhookUp = false;
+  registerNotifier('test-webhook', () => ({
+    name: 'test-webhook',
+    send: async (alerts) => {
+      if (!webhookUp) throw new Error('503 Service Unavailable');
+      delivered.push(alerts.map((a) => a.rule));
+    },
+  }));
+
+  test.beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bluestar-alerts-'));
+  });
+  test.afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('keeps alerts that no notifier delivered for the next run', async () => {
+    const config = { rules: rules.slice(0, 1), notifiers: [{ type: 'test-webhook' } as unknown as NotifierConfig] };
+    webhookUp = false;
+    expect(await runAlerts(config, current, previous, { outputDir: dir })).toEqual([]);
+    expect((await loadAlertsState(dir)).active).toEqual({});
+
+    webhookUp = true;
+    const sent = await runAlerts(config, current, previous, { outputDir: dir });
+    expect(sent.map((a) => a.rule)).toEqual(['cheap gauze']);
+    expect(delivered).toEqual([['cheap gauze']]);
+    expect(Object.keys((await loadAlertsState(dir)).active)).toEqual(['cheap gauze::sku:GAU-01']);
+  });
+
+  test('rejects unknown notifier types and invalid name patterns when loading the config', async () => {
+    const configPath = path.join(dir, 'alerts.config.json');
+    await fs.writeFile(configPath, JSON.stringify({ rules, notifiers: [{ type: 'pager' }] }));
+    await expect(loadAlertsConfig(configPath)).rejects.toThrow('Unknown notifier type "pager"');
+
+    const badPattern = [{ ...rules[0], namePattern: 'gauze(' }];
+    await fs.writeFile(configPath, JSON.stringify({ rules: badPattern, notifiers: [{ type: 'stdout' }] }));
+    await expect(loadAlertsConfig(configPath)).rejects.toThrow('rule "cheap gauze" has an invalid "namePattern"');
+  });
+});
+
+test.describe('stdout notifier', () => {
+  test.afterEach(() => configureLogging({ format: 'text', write: (line) => process.stdout.write(line) }));
+
+  test('writes the alerts as one log entry so JSON logs stay one object per line', async () => {
+    const lines: string[] = [];
+    configureLogging({ format: 'json', write: (line) => lines.push(line) });
+    const alerts = evaluateAlerts(rules.slice(0, 1), current, null);
+    await createNotifier({ type: 'stdout' }).send(alerts, 'r2');
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({ level: 'info', event: 'alert', alerts: [{ rule: 'cheap gauze', sku: 'GAU-01' }] });
+  });
+});
@@ -0,0 +1,103 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { diffRuns, extractProductDetails, imageHashes, readAssetLinks, snapshotRun, withAssets } from '../../src';
+import type { ProductAsset, ProductRecord } from '../../src';
+import { ASSET_FILES, expect, test } from './fixtureServer';
+import { SITE_URL, productRecord } from './records';
+
+const asset = (sha256: string, kind: ProductAsset['kind'] = 'image'): ProductAsset => ({
+  kind,
+  url: `${SITE_URL}/images/${sha256}`,
+  path: `assets/CRE-TOL-05OZ/${sha256}.jpg`,
+  sha256,
+  contentType: kind === 'image' ? 'image/jpeg' : 'application/pdf',
+  bytes: 100,
+});
+
+const record = (assets?: ProductAsset[]): ProductRecord => productRecord({ assets });
+
+test.describe('imageHashes', () => {
+  test('returns the sorted, unique image hashes and ignores documents', () => {
+    expect(imageHashes(record([asset('bbb'), asset('aaa'), asset('bbb'), asset('ccc', 'document')]))).toEqual(['aaa', 'bbb']);
+  });
+
+  test('is undefined when the run did not capture assets', () => {
+    expect(imageHashes(record())).toBeUndefined();
+  });
+});
+
+test.describe('diffRuns imageChanges', () => {
+  const run = (runId: string, rec: ProductRecord) => snapshotRun(runId, ['bluestar'], [rec]);
+
+  test('reports a product whose image content changed', () => {
+    const diff = diffRuns(run('r1', record([asset('aaa')])), run('r2', record([asset('bbb')])));
+    expect(diff.imageChanges.map((p) => p.sku)).toEqual(['CRE-TOL-05OZ']);
+  });
+
+  test('ignores reordered images and runs without asset capture', () => {
+    const both = record([asset('aaa'), asset('bbb')]);
+    const reordered = record([asset('bbb'), asset('aaa')]);
+    expect(diffRuns(run('r1', both), run('r2', reordered)).imageChanges).toEqual([]);
+    expect(diffRuns(run('r1', both), run('r2', record())).imageChanges).toEqual([]);
+  });
+});
+
+test.describe('readAssetLinks', () => {
+  test('reads gallery and JSON-LD images and documents linked from the product details only', async ({ page, siteUrl }) => {
+    await page.goto(`${siteUrl}/Sterile-Gauze-Pads`);
+    expect(await readAssetLinks(page)).toEqual([
+      { kind: 'image', url: `${siteUrl}/images/gauze-main.png` },
+      { kind: 'image', url: `${siteUrl}/images/gauze-copy.png` },
+      { kind: 'document', url: `${siteUrl}/docs/gauze-sds.pdf` },
+      { kind: 'document', url: `${siteUrl}/docs/missing-spec-sheet.pdf` },
+    ]);
+  });
+});
+
+test.describe('withAssets', () => {
+  let dir: string;
+  const sha256 = (body: Buffer) => createHash('sha256').update(body).digest('hex');
+
+  test.beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bluestar-assets-'));
+  });
+  test.afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('stores each distinct file once under its content hash and skips failing links', async ({ page, siteUrl }) => {
+    await page.goto(`${siteUrl}/Sterile-Gauze-Pads`);
+    const links = await readAssetLinks(page);
+    const scraped = await extractProductDetails(page, 'bluestar');
+
+    const { assets } = await withAssets(page, scraped, links, dir);
+    const imageHash = sha256(ASSET_FILES['/images/gauze-main.png'].body);
+    const sdsHash = sha256(ASSET_FILES['/docs/gauze-sds.pdf'].body);
+    expect(assets).toEqual([
+      {
+        kind: 'image',
+        url: `${siteUrl}/images/gauze-main.png`,
+        path: `assets/GAU-4X4-100/${imageHash.slice(0, 16)}.png`,
+        sha256: imageHash,
+        contentType: 'image/png',
+        bytes: ASSET_FILES['/images/gauze-main.png'].body.length,
+      },
+      {
+        kind: 'document',
+        url: `${siteUrl}/docs/gauze-sds.pdf`,
+        path: `assets/GAU-4X4-100/${sdsHash.slice(0, 16)}.pdf`,
+        sha256: sdsHash,
+        contentType: 'application/pdf',
+        bytes: ASSET_FILES['/docs/gauze-sds.pdf'].body.length,
+      },
+    ]);
+    expect(await fs.readFile(path.join(dir, assets![1].path))).toEqual(ASSET_FILES['/docs/gauze-sds.pdf'].body);
+
+    // A second run finds the files already stored and writes nothing new.
+    const again = await withAssets(page, scraped, links, dir);
+    expect(again.assets).toEqual(assets);
+    expect((await fs.readdir(path.join(dir, 'assets', 'GAU-4X4-100'))).sort()).toEqual(assets!.map((a) => path.basename(a.path)).sort());
+  });
+});
@@ -0,0 +1,140 @@
+import type { Page } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuthError, SessionExpiredError, createSessionGuard, isLoggedIn, login, loginIfNeeded, mapUrlsWithPages } from '../../src';
+import type { SiteConfig } from '../../src';
+import { FIXTURE_ACCOUNT, FIXTURE_SESSION_COOKIE, expect, test } from './fixtureServer';
+
+const siteFor = (siteUrl: string): SiteConfig => ({
+  baseUrl: siteUrl,
+  loginUrl: `${siteUrl}/login`,
+  emailEnv: 'FIXTURE_EMAIL',
+  passwordEnv: 'FIXTURE_PASSWORD',
+});
+
+// Counts submitted login forms, i.e. credentials actually sent to the site.
+function countLoginPosts(page: Page): () => number {
+  let posts = 0;
+  page.on('request', (req) => {
+    if (req.method() === 'POST' && new URL(req.url()).pathname === '/login') posts += 1;
+  });
+  return () => posts;
+}
+
+test.describe('login', () => {
+  let dir: string;
+
+  test.beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bluestar-auth-'));
+    process.env.FIXTURE_EMAIL = FIXTURE_ACCOUNT.email;
+    process.env.FIXTURE_PASSWORD = FIXTURE_ACCOUNT.password;
+  });
+  test.afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('reports rejected credentials as an AuthError', async ({ page, siteUrl }) => {
+    process.env.FIXTURE_PASSWORD = 'wrong';
+    const error = await login(page, siteFor(siteUrl)).catch((err) => err);
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error).toMatchObject({ reason: 'rejected' });
+    expect(error.message).toContain('Invalid email address or password.');
+  });
+
+  test('restores a saved session without submitting the login form', async ({ browser, page, siteUrl }) => {
+    const storageStatePath = path.join(dir, 'bluestar.json');
+    await login(page, siteFor(siteUrl), { storageStatePath });
+
+    const context = await browser.newContext();
+    try {
+      const restored = await context.newPage();
+      const loginPosts = countLoginPosts(restored);
+      await loginIfNeeded(restored, siteFor(siteUrl), { storageStatePath });
+      expect(loginPosts()).toBe(0);
+      expect(await isLoggedIn(restored, siteFor(siteUrl))).toBe(true);
+    } finally {
+      await context.close();
+    }
+  });
+
+  test('restores the localStorage of a saved session', async ({ page, siteUrl }) => {
+    const storageStatePath = path.join(dir, 'bluestar.json');
+    const cookie = { ...FIXTURE_SESSION_COOKIE, domain: new URL(siteUrl).hostname, path: '/' };
+    const origins = [{ origin: siteUrl, localStorage: [{ name: 'cart-id', value: 'cart-1234' }] }];
+    await fs.writeFile(storageStatePath, JSON.stringify({ cookies: [cookie], origins }));
+    const loginPosts = countLoginPosts(page);
+
+    await loginIfNeeded(page, siteFor(siteUrl), { storageStatePath });
+    expect(loginPosts()).toBe(0);
+    expect(await page.evaluate(() => window.localStorage.getItem('cart-id'))).toBe('cart-1234');
+  });
+
+  test('logs in again when the saved session expired', async ({ page, siteUrl }) => {
+    const storageStatePath = path.join(dir, 'bluestar.json');
+    const expired = { ...FIXTURE_SESSION_COOKIE, value: 'expired', domain: new URL(siteUrl).hostname, path: '/' };
+    await fs.writeFile(storageStatePath, JSON.stringify({ cookies: [expired], origins: [] }));
+    const loginPosts = countLoginPosts(page);
+
+    await loginIfNeeded(page, siteFor(siteUrl), { storageStatePath });
+    expect(loginPosts()).toBe(1);
+    const saved = JSON.parse(await fs.readFile(storageStatePath, 'utf8'));
+    expect(saved.cookies.map((c: { value: string }) => c.value)).toEqual([FIXTURE_SESSION_COOKIE.value]);
+  });
+});
+
+test.describe('createSessionGuard', () => {
+  test.beforeEach(() => {
+    process.env.FIXTURE_EMAIL = FIXTURE_ACCOUNT.email;
+    process.env.FIXTURE_PASSWORD = FIXTURE_ACCOUNT.password;
+  });
+
+  test('re-authenticates when the session expires mid-run', async ({ page, siteUrl }) => {
+    const guard = createSessionGuard(siteFor(siteUrl));
+    await login(page, siteFor(siteUrl));
+    await guard.check(page);
+
+    await page.context().clearCookies();
+    await page.goto(siteUrl);
+    await expect(guard.check(page)).rejects.toBeInstanceOf(SessionExpiredError);
+    expect(await isLoggedIn(page, siteFor(siteUrl))).toBe(true);
+  });
+
+  test('does not submit credentials again after a rejected re-login', async ({ page, siteUrl }) => {
+    const guard = createSessionGuard(siteFor(siteUrl));
+    await login(page, siteFor(siteUrl));
+    process.env.FIXTURE_PASSWORD = 'changed-elsewhere';
+    const loginPosts = countLoginPosts(page);
+
+    await page.context().clearCookies();
+    await page.goto(siteUrl);
+    await expect(guard.check(page)).rejects.toMatchObject({ reason: 'rejected' });
+    await page.goto(siteUrl);
+    await expect(guard.check(page)).rejects.toMatchObject({ reason: 'rejected' });
+    expect(loginPosts()).toBe(1);
+  });
+});
+
+test.describe('mapUrlsWithPages', () => {
+  // Only the context/newPage/close surface the pool touches; fn never drives the page.
+  const fakePage = (closed: string[]): Page => {
+    const context = { newPage: async () => fakePage(closed) };
+    return { context: () => context, close: async () => void closed.push('page') } as unknown as Page;
+  };
+
+  test('stops taking URLs after the first failure and closes its pages', async () => {
+    const closed: string[] = [];
+    const urls = Array.from({ length: 6 }, (_, i) => `https://www.medstatsupplies.com/item-${i}`);
+    const visited: number[] = [];
+    const run = mapUrlsWithPages(fakePage(closed), urls, { concurrency: 2, politenessDelayMs: 0 }, async (_page, _url, index) => {
+      visited.push(index);
+      if (index === 1) throw new AuthError('Login rejected', 'rejected');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return index;
+    });
+
+    await expect(run).rejects.toMatchObject({ reason: 'rejected' });
+    expect(visited).toEqual([0, 1]);
+    expect(closed).toEqual(['page']);
+  });
+});
@@ -0,0 +1,46 @@
+import { test, expect } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createCheckpointWriter, loadCheckpoint, removeCheckpoint } from '../../src';
+import type { TargetCheckpoint } from '../../src';
+import { SITE_URL, productRecord } from './records';
+
+test.describe('checkpoint', () => {
+  let dir: string;
+  let filePath: string;
+
+  test.beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bluestar-checkpoint-'));
+    filePath = path.join(dir, 'bluestar_checkpoint.json');
+  });
+  test.afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('saves every record so a new run resumes with the finished URLs', async () => {
+    const urls = Array.from({ length: 5 }, (_, i) => `${SITE_URL}/item-${i}`);
+    const checkpoint: TargetCheckpoint = { target: 'bluestar', productUrls: urls, records: {} };
+    const save = createCheckpointWriter(filePath, checkpoint);
+    // Concurrent workers do not await each other's writes.
+    await Promise.all(urls.slice(0, 3).map((url, i) => save(url, productRecord({ productUrl: url, sku: `ITEM-${i}` }))));
+
+    const resumed = await loadCheckpoint(filePath, 'bluestar');
+    expect(resumed?.productUrls).toEqual(urls);
+    expect(Object.keys(resumed?.records ?? {})).toEqual(urls.slice(0, 3));
+    expect(resumed?.records[urls[2]].sku).toBe('ITEM-2');
+  });
+
+  test('ignores a checkpoint of another target or a missing file', async () => {
+    await createCheckpointWriter(filePath, { target: 'other', productUrls: [], records: {} })(`${SITE_URL}/item-0`, productRecord());
+    expect(await loadCheckpoint(filePath, 'bluestar')).toBeNull();
+    expect(await loadCheckpoint(path.join(dir, 'missing.json'), 'bluestar')).toBeNull();
+  });
+
+  test('removes the checkpoint once the target finished', async () => {
+    await createCheckpointWriter(filePath, { target: 'bluestar', productUrls: [], records: {} })(`${SITE_URL}/item-0`, productRecord());
+    await removeCheckpoint(filePath);
+    expect(await fs.readdir(dir)).toEqual([]);
+    await removeCheckpoint(filePath);
+  });
+});
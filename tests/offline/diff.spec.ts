@@ -0,0 +1,56 @@
+import { test, expect } from '@playwright/test';
+import { diffRuns, snapshotRun } from '../../src';
+import type { ProductRecord, ScrapeFailure } from '../../src';
+import { SITE_URL, productRecord } from './records';
+
+const gauze = (overrides: Parameters<typeof productRecord>[0] = {}): ProductRecord =>
+  productRecord({ productUrl: `${SITE_URL}/Sterile-Gauze-Pads`, productName: 'Sterile Gauze Pads', sku: 'GAU-STE-4X4', price: '$12.99', ...overrides });
+
+const run = (runId: string, records: ProductRecord[], failures: ScrapeFailure[] = []) => snapshotRun(runId, ['bluestar'], records, failures);
+
+test.describe('diffRuns', () => {
+  test('reports new and delisted products', () => {
+    const diff = diffRuns(run('r1', [productRecord()]), run('r2', [gauze()]));
+    expect(diff.newProducts.map((p) => p.sku)).toEqual(['GAU-STE-4X4']);
+    expect(diff.removedProducts.map((p) => p.sku)).toEqual(['CRE-TOL-05OZ']);
+  });
+
+  test('reports nothing as new on the first run', () => {
+    expect(diffRuns(null, run('r1', [productRecord(), gauze()])).newProducts).toEqual([]);
+  });
+
+  test('reports price changes with the relative delta', () => {
+    const diff = diffRuns(run('r1', [productRecord(), gauze()]), run('r2', [productRecord({ price: '$3.98' }), gauze()]));
+    expect(diff.priceChanges).toEqual([
+      expect.objectContaining({ sku: 'CRE-TOL-05OZ', previousPrice: 3.48, currentPrice: 3.98, deltaPercent: 14.37 }),
+    ]);
+  });
+
+  test('reports stock-outs and restocks from quantities', () => {
+    const diff = diffRuns(run('r1', [productRecord(), gauze({ stock: '0' })]), run('r2', [productRecord({ stock: '0' }), gauze({ stock: '12' })]));
+    expect(diff.stockOuts).toEqual([expect.objectContaining({ sku: 'CRE-TOL-05OZ', previousStock: 332, currentStock: 0, currentStatus: 'out_of_stock' })]);
+    expect(diff.restocks).toEqual([expect.objectContaining({ sku: 'GAU-STE-4X4', previousStock: 0, currentStock: 12, currentStatus: 'in_stock' })]);
+  });
+
+  test('reports stock-outs and restocks from text-only stock', () => {
+    const diff = diffRuns(
+      run('r1', [productRecord(), gauze({ stock: 'Out of stock' })]),
+      run('r2', [productRecord({ stock: 'Out of stock' }), gauze({ stock: 'In stock' })]),
+    );
+    expect(diff.stockOuts).toEqual([expect.objectContaining({ sku: 'CRE-TOL-05OZ', previousStatus: 'in_stock', currentStatus: 'out_of_stock' })]);
+    expect(diff.restocks).toEqual([expect.objectContaining({ sku: 'GAU-STE-4X4', previousStatus: 'out_of_stock', currentStatus: 'in_stock' })]);
+  });
+
+  test('ignores stock that could not be read', () => {
+    const diff = diffRuns(run('r1', [productRecord()]), run('r2', [productRecord({ stock: null })]));
+    expect(diff.stockOuts).toEqual([]);
+    expect(diff.restocks).toEqual([]);
+  });
+
+  test('does not report a redirected product that failed to scrape as delisted', () => {
+    const collectedUrl = `${SITE_URL}/tolnaftate-cream`;
+    const failure: ScrapeFailure = { target: 'bluestar', productUrl: collectedUrl, attempts: 3, error: 'Timeout 30000ms exceeded', screenshotPath: null };
+    const diff = diffRuns(run('r1', [{ ...productRecord(), collectedUrl }]), run('r2', [], [failure]));
+    expect(diff.removedProducts).toEqual([]);
+  });
+});
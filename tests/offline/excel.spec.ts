@@ -0,0 +1,109 @@
+import { test, expect } from '@playwright/test';
+import ExcelJS from 'exceljs';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ARCHIVE_DIRNAME,
+  CHANGES_SHEET,
+  CURRENT_SHEET,
+  HISTORY_SHEET,
+  RUNS_SHEET,
+  columnDefs,
+  diffRuns,
+  snapshotRun,
+  writeChangesSheet,
+  writeExcel,
+} from '../../src';
+import { productRecord as record } from './records';
+
+async function readSheet(filePath: string, name: string = CURRENT_SHEET): Promise<ExcelJS.Worksheet> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+  return workbook.getWorksheet(name) as ExcelJS.Worksheet;
+}
+
+function cell(sheet: ExcelJS.Worksheet, rowNumber: number, header: string): ExcelJS.CellValue {
+  const headers = (sheet.getRow(1).values as unknown[]).slice(1);
+  return sheet.getRow(rowNumber).getCell(headers.indexOf(header) + 1).value;
+}
+
+test.describe('writeExcel', () => {
+  let outputDir: string;
+
+  test.beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bluestar-excel-'));
+  });
+
+  test.afterEach(async () => {
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  test('writes the canonical columns with numeric price/stock and a real date cell', async () => {
+    const filePath = await writeExcel([record({ description: '1% Strength\n0.5oz Tube', scrapedAt: '2026-03-02T20:30:00.000Z' })], 'products.xlsx', outputDir);
+    const sheet = await readSheet(filePath);
+    const headers = (sheet.getRow(1).values as unknown[]).slice(1);
+    expect(headers.filter((h) => h !== 'PREVIOUS PRICE' && h !== 'PRICE CHANGE')).toEqual(columnDefs.map((c) => c.header));
+    expect(cell(sheet, 2, 'PRICE')).toBe(3.48);
+    expect(cell(sheet, 2, 'STOCK')).toBe(332);
+    expect(cell(sheet, 2, 'DESCRIPTION')).toBe('1% Strength\n0.5oz Tube');
+    // 20:30 UTC is 12:30 in Los Angeles (PST)
+    expect(cell(sheet, 2, 'DATE')).toEqual(new Date(Date.UTC(2026, 2, 2, 12, 30)));
+    expect(sheet.autoFilter).toBeTruthy();
+  });
+
+  test('keeps unparseable values as text', async () => {
+    const filePath = await writeExcel([record({ price: 'Call for price', stock: 'Out of stock' })], 'products.xlsx', outputDir);
+    const sheet = await readSheet(filePath);
+    expect(cell(sheet, 2, 'PRICE')).toBe('Call for price');
+    expect(cell(sheet, 2, 'STOCK')).toBe('Out of stock');
+  });
+
+  test('keeps one current row per SKU and tracks the price change', async () => {
+    await writeExcel([record()], 'products.xlsx', outputDir, { runId: 'run-1' });
+    const filePath = await writeExcel(
+      [record({ price: '$3.98' }), record({ target: 'cream', price: '$3.98' })],
+      'products.xlsx',
+      outputDir,
+      { runId: 'run-2' },
+    );
+    const current = await readSheet(filePath);
+    expect(current.rowCount).toBe(2);
+    expect(cell(current, 2, 'PREVIOUS PRICE')).toBe(3.48);
+    expect(cell(current, 2, 'PRICE CHANGE')).toBe(0.5);
+    expect(cell(current, 2, 'TARGET')).toBe('bluestar, cream');
+
+    const history = await readSheet(filePath, HISTORY_SHEET);
+    expect(history.rowCount).toBe(4);
+    const runs = await readSheet(filePath, RUNS_SHEET);
+    expect([cell(runs, 2, 'RUN ID'), cell(runs, 3, 'RUN ID')]).toEqual(['run-1', 'run-2']);
+  });
+
+  test('moves history beyond the retained runs to a rotated archive', async () => {
+    const retention = { historyRuns: 1, archiveMaxRows: 1, archiveMaxFiles: 2 };
+    for (const runId of ['run-1', 'run-2', 'run-3', 'run-4']) {
+      await writeExcel([record()], 'products.xlsx', outputDir, { runId }, retention);
+    }
+    const history = await readSheet(path.join(outputDir, 'products.xlsx'), HISTORY_SHEET);
+    expect(history.rowCount).toBe(2);
+    expect(cell(history, 2, 'RUN ID')).toBe('run-4');
+    expect((await fs.readdir(path.join(outputDir, ARCHIVE_DIRNAME))).sort()).toEqual([
+      'products_history_002.xlsx',
+      'products_history_003.xlsx',
+    ]);
+  });
+
+  test('keeps the Changes sheet of the last recorded run when rewriting the workbook', async () => {
+    await writeExcel([record()], 'products.xlsx', outputDir, { runId: 'run-1' });
+    const filePath = await writeExcel([record({ price: '$3.98' })], 'products.xlsx', outputDir, { runId: 'run-2' });
+    const diff = diffRuns(snapshotRun('run-1', ['bluestar'], [record()]), snapshotRun('run-2', ['bluestar'], [record({ price: '$3.98' })]));
+    await writeChangesSheet(diff, 'products.xlsx', outputDir);
+
+    // A page-capped run rewrites the workbook without recording history.
+    await writeExcel([record({ price: '$3.98' })], 'products.xlsx', outputDir, { runId: 'run-3' });
+    const changes = await readSheet(filePath, CHANGES_SHEET);
+    expect(changes.rowCount).toBe(2);
+    expect([cell(changes, 2, 'SKU'), cell(changes, 2, 'PREVIOUS'), cell(changes, 2, 'CURRENT')]).toEqual(['CRE-TOL-05OZ', 3.48, 3.98]);
+    expect(changes.getRow(2).getCell(4).numFmt).toBe('$#,##0.00');
+  });
+});
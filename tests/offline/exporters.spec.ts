@@ -0,0 +1,44 @@
+import { test, expect } from '@playwright/test';
+import { columnDefs, csvField, selectColumns, toCsv, toNdjson } from '../../src';
+import { productRecord } from './records';
+
+// Values that need quoting in CSV and a thousands separator in the price.
+const tube = {
+  productName: 'Tolnaftate Antifungal Cream, 0.5 oz "Tube"',
+  price: '$1,003.48',
+  description: '1% Strength\r\n0.5oz Tube',
+  scrapedAt: '2026-03-02T20:30:00.000Z',
+};
+
+test.describe('csv export', () => {
+  test('quotes delimiters, quotes and line breaks', () => {
+    expect(csvField('plain')).toBe('plain');
+    expect(csvField('a, "b"')).toBe('"a, ""b"""');
+    expect(csvField('line\r\nbreak')).toBe('"line\nbreak"');
+    expect(csvField(' padded')).toBe('" padded"');
+    expect(csvField(null)).toBe('');
+    expect(csvField(3.48)).toBe('3.48');
+  });
+
+  test('writes the selected columns in order with CRLF row endings', () => {
+    const csv = toCsv([productRecord(tube)], selectColumns(['sku', 'price', 'productName', 'description']));
+    expect(csv).toBe(
+      'SKU,PRICE,Item Name,DESCRIPTION\r\nCRE-TOL-05OZ,1003.48,"Tolnaftate Antifungal Cream, 0.5 oz ""Tube""","1% Strength\n0.5oz Tube"\r\n',
+    );
+  });
+
+  test('rejects unknown columns', () => {
+    expect(() => selectColumns(['sku', 'colour'])).toThrow(/colour/);
+  });
+});
+
+test.describe('ndjson export', () => {
+  test('writes one object per line keyed by column key', () => {
+    const lines = toNdjson([productRecord(tube), productRecord({ ...tube, sku: 'SECOND', price: null })], columnDefs).trimEnd().split('\n');
+    expect(lines).toHaveLength(2);
+    const first = JSON.parse(lines[0]);
+    expect(Object.keys(first)).toEqual(columnDefs.map((c) => c.key));
+    expect(first).toMatchObject({ sku: 'CRE-TOL-05OZ', price: 1003.48, stock: 332, scrapedAt: '2026-03-02T20:30:00.000Z' });
+    expect(JSON.parse(lines[1])).toMatchObject({ sku: 'SECOND', price: null });
+  });
+});
@@ -0,0 +1,121 @@
+import { test as base } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as path from 'path';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+// Stand-in for medstatsupplies.com: search pages by ?page=, product pages by path, plus a home page and login form.
+const PRODUCT_PAGES: Record<string, string> = {
+  '/10-Panel-Urine-Dip-Card': 'product_jsonld.html',
+  '/Oral-Anesthetic-Gel': 'product_microdata.html',
+  '/Tolnaftate-Antifungal-Cream': 'product_legacy.html',
+  // The same product as an anonymous visitor sees it when the site hides prices from guests.
+  '/Tolnaftate-Antifungal-Cream-guest': 'product_guest.html',
+  '/Sterile-Gauze-Pads': 'product_assets.html',
+};
+
+// Files linked from product_assets.html; the copy has the main image's content under another URL.
+const PNG_BYTES = Buffer.from('89504e470d0a1a0a0000000d49484452000000010000000108060000001f15c489', 'hex');
+export const ASSET_FILES: Record<string, { contentType: string; body: Buffer }> = {
+  '/images/gauze-main.png': { contentType: 'image/png', body: PNG_BYTES },
+  '/images/gauze-copy.png': { contentType: 'image/png', body: PNG_BYTES },
+  '/docs/gauze-sds.pdf': { contentType: 'application/pdf', body: Buffer.from('%PDF-1.4\n% Sterile Gauze Pads SDS\n%%EOF\n') },
+  '/docs/catalog.pdf': { contentType: 'application/pdf', body: Buffer.from('%PDF-1.4\n% Catalog\n%%EOF\n') },
+};
+
+// Account the stand-in login form accepts; a successful login sets the session cookie the header checks.
+export const FIXTURE_ACCOUNT = { email: 'buyer@example.com', password: 'correct-horse' };
+export const FIXTURE_SESSION_COOKIE = { name: 'session', value: 'valid' };
+
+function homePage(loggedIn: boolean): string {
+  const header = loggedIn
+    ? '<a class="header-profile-welcome-link" href="/account">Welcome, Buyer</a>'
+    : '<a class="header-profile-login-link" href="/login">Log In</a>';
+  return `<!DOCTYPE html><html><body><header>${header}</header><main><h1>Medstat Supplies</h1></main></body></html>`;
+}
+
+function loginPage(error?: string): string {
+  const message = error ? `<div class="global-views-message-error">${error}</div>` : '';
+  return `<!DOCTYPE html><html><body><form class="login-register-login-form" method="post" action="/login">${message}
+    <label for="email">Email Address</label><input id="email" name="email" type="email">
+    <label for="password">Password</label><input id="password" name="password" type="password">
+    <button type="submit">Log In</button></form></body></html>`;
+}
+
+async function handleAccount(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<boolean> {
+  if (url.pathname === '/') {
+    const loggedIn = (req.headers.cookie || '').includes(`${FIXTURE_SESSION_COOKIE.name}=${FIXTURE_SESSION_COOKIE.value}`);
+    res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+    res.end(homePage(loggedIn));
+    return true;
+  }
+  if (url.pathname !== '/login') return false;
+  if (req.method !== 'POST') {
+    res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+    res.end(loginPage());
+    return true;
+  }
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  const form = new URLSearchParams(body);
+  if (form.get('email') === FIXTURE_ACCOUNT.email && form.get('password') === FIXTURE_ACCOUNT.password) {
+    res.writeHead(302, { location: '/', 'set-cookie': `${FIXTURE_SESSION_COOKIE.name}=${FIXTURE_SESSION_COOKIE.value}; Path=/` });
+    res.end();
+  } else {
+    res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+    res.end(loginPage('Invalid email address or password.'));
+  }
+  return true;
+}
+
+function fixtureFor(url: URL): string | null {
+  if (url.pathname === '/search') {
+    const page = url.searchParams.get('page') || '1';
+    if (page === '1') return 'search_page1.html';
+    if (page === '2') return 'search_page2.html';
+    return 'search_empty.html';
+  }
+  return PRODUCT_PAGES[url.pathname] ?? null;
+}
+
+export async function startFixtureServer(): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (await handleAccount(req, res, url)) return;
+    const asset = ASSET_FILES[url.pathname];
+    if (asset) {
+      res.writeHead(200, { 'content-type': asset.contentType });
+      res.end(asset.body);
+      return;
+    }
+    const file = fixtureFor(url);
+    if (!file) {
+      res.writeHead(404, { 'content-type': 'text/html' });
+      res.end('<!DOCTYPE html><html><body><h1>Not found</h1></body></html>');
+      return;
+    }
+    res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+    res.end(await fs.readFile(path.join(FIXTURES_DIR, file)));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+export const test = base.extend<object, { siteUrl: string }>({
+  siteUrl: [
+    async ({}, use) => {
+      const server = await startFixtureServer();
+      await use(server.url);
+      await server.close();
+    },
+    { scope: 'worker' },
+  ],
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,23 @@
+import { test, expect } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { appendHistoryRun, loadHistory, snapshotRun } from '../../src';
+
+test.describe('appendHistoryRun', () => {
+  test('keeps only the most recent runs', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bluestar-history-'));
+    try {
+      for (const runId of ['run-1', 'run-2', 'run-3', 'run-4']) {
+        await appendHistoryRun(snapshotRun(runId, ['bluestar'], []), dir, { maxRuns: 3 });
+      }
+      expect((await loadHistory(dir)).runs.map((r) => r.runId)).toEqual(['run-2', 'run-3', 'run-4']);
+
+      // The diff against the previous run needs two runs whatever the configured retention.
+      const { runs } = await appendHistoryRun(snapshotRun('run-5', ['bluestar'], []), dir, { maxRuns: 1 });
+      expect(runs.map((r) => r.runId)).toEqual(['run-4', 'run-5']);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
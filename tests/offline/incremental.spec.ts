@@ -0,0 +1,65 @@
+import { test, expect } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadIncrementalBaseline, planIncremental } from '../../src';
+import type { IncrementalBaseline, ProductRecord } from '../../src';
+import { SITE_URL, productRecord } from './records';
+
+const now = new Date('2026-03-02T12:00:00Z');
+
+const record = (slug: string, sku: string, scrapedAt?: string): ProductRecord =>
+  productRecord({ productUrl: `${SITE_URL}/${slug}`, productName: slug, sku, scrapedAt });
+
+const baseline = (records: ProductRecord[]): IncrementalBaseline => ({
+  previousUrls: new Set(records.map((r) => r.productUrl)),
+  records: new Map(records.map((r) => [r.productUrl, r])),
+});
+
+test.describe('planIncremental', () => {
+  test('scrapes new and stale products and carries fresh ones over', () => {
+    const fresh = record('fresh', 'SKU-1', '2026-03-02T06:00:00Z');
+    const stale = record('stale', 'SKU-2', '2026-03-01T06:00:00Z');
+    const legacy = record('legacy', 'SKU-3');
+    const urls = [`${SITE_URL}/new`, fresh.productUrl, stale.productUrl, legacy.productUrl];
+
+    const plan = planIncremental(urls, baseline([fresh, stale, legacy]), { staleAfterHours: 24 }, now);
+    expect(plan.scrape).toEqual([`${SITE_URL}/new`, stale.productUrl, legacy.productUrl]);
+    expect(Array.from(plan.reuse.keys())).toEqual([fresh.productUrl]);
+    expect(plan).toMatchObject({ newCount: 1, staleCount: 2, watchedCount: 0 });
+  });
+
+  test('revisits watched SKUs on every run', () => {
+    const watched = record('watched', 'sku-1', '2026-03-02T11:59:00Z');
+    const plan = planIncremental([watched.productUrl], baseline([watched]), { watchSkus: ['SKU-1'] }, now);
+    expect(plan.scrape).toEqual([watched.productUrl]);
+    expect(plan.watchedCount).toBe(1);
+  });
+
+  test('treats a stored record whose URL was not collected last time as new', () => {
+    const previous = record('relisted', 'SKU-4', '2026-03-02T11:00:00Z');
+    const stored: IncrementalBaseline = { previousUrls: new Set(), records: new Map([[previous.productUrl, previous]]) };
+    const plan = planIncremental([previous.productUrl], stored, {}, now);
+    expect(plan.newCount).toBe(1);
+  });
+});
+
+test.describe('loadIncrementalBaseline', () => {
+  test('keys stored records by the URL they were collected under', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bluestar-incremental-'));
+    try {
+      // The search result redirects to a canonical product URL; the next run collects the search URL again.
+      const redirected = { ...record('canonical', 'SKU-5', '2026-03-02T11:00:00Z'), collectedUrl: `${SITE_URL}/listed` };
+      const legacy = record('legacy', 'SKU-6', '2026-03-02T11:00:00Z');
+      await fs.writeFile(path.join(dir, 'product_urls_all.json'), JSON.stringify([`${SITE_URL}/listed`, legacy.productUrl]));
+      await fs.writeFile(path.join(dir, 'bluestar_products.json'), JSON.stringify([redirected, legacy]));
+
+      const loaded = await loadIncrementalBaseline('bluestar_products.json', dir);
+      const plan = planIncremental([`${SITE_URL}/listed`, legacy.productUrl], loaded, {}, now);
+      expect(plan.scrape).toEqual([]);
+      expect(Array.from(plan.reuse.keys())).toEqual([`${SITE_URL}/listed`, legacy.productUrl]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import type { Page } from '@playwright/test';
+import { test, expect } from '@playwright/test';
+import { fetchAllItems, mapItemToRecord } from '../../src';
+import type { SiteConfig, SuiteCommerceItem } from '../../src';
+import { SITE_URL } from './records';
+
+const site: SiteConfig = { baseUrl: SITE_URL, loginUrl: `${SITE_URL}/login`, emailEnv: 'FIXTURE_EMAIL', passwordEnv: 'FIXTURE_PASSWORD' };
+
+// A matrix parent as /api/items returns it, trimmed to the fields the mapper reads.
+const glovesItem: SuiteCommerceItem = {
+  internalid: 48213,
+  itemid: 'GLV-NIT-BX',
+  urlcomponent: 'Nitrile-Exam-Gloves',
+  storedisplayname2: 'Nitrile Exam Gloves',
+  manufacturer: 'Medline',
+  mpn: 'MDS192075',
+  onlinecustomerprice_detail: {
+    onlinecustomerprice: 8.75,
+    onlinecustomerprice_formatted: '$8.75',
+    priceschedule: [
+      { minimumquantity: 0, maximumquantity: 10, price: 8.75, price_formatted: '$8.75' },
+      { minimumquantity: 10, price: 7.9, price_formatted: '$7.90' },
+    ],
+  },
+  pricelevel1: 9.5,
+  pricelevel5: 8.75,
+  quantityavailable: 140,
+  isinstock: true,
+  isbackorderable: false,
+  ispurchasable: true,
+  storedetaileddescription: '<p>Powder-free&nbsp;nitrile.</p><p>Latex &amp; fragrance free.</p>',
+  commercecategory: { categories: [{ name: 'Gloves' }, { name: 'Exam Room' }] },
+  itemimages_detail: { media: { urls: [{ url: `${SITE_URL}/images/GLV-NIT-BX.jpg` }, { url: `${SITE_URL}/images/GLV-NIT-BX.jpg` }] } },
+  matrixchilditems_detail: [
+    { internalid: 48214, itemid: 'GLV-NIT-BX-S', custitem_size: 'Small', isinstock: true, quantityavailable: 90 },
+    { internalid: 48215, itemid: 'GLV-NIT-BX-M', custitem_size: 'Medium', custitem_color: '', isinstock: false, quantityavailable: 0 },
+  ],
+};
+
+test.describe('mapItemToRecord', () => {
+  test('maps an items API payload with matrix children to a record', () => {
+    const record = mapItemToRecord(glovesItem, site, 'bluestar');
+    expect(record).toMatchObject({
+      target: 'bluestar',
+      productUrl: `${SITE_URL}/Nitrile-Exam-Gloves`,
+      productName: 'Nitrile Exam Gloves',
+      sku: 'GLV-NIT-BX',
+      mpn: 'MDS192075',
+      manufacturer: 'Medline',
+      price: '$8.75',
+      stock: '140',
+      description: 'Powder-free nitrile.\nLatex & fragrance free.',
+      priceCents: 875,
+      stockQuantity: 140,
+      stockStatus: 'in_stock',
+      fieldSources: { productName: 'api', sku: 'api', price: 'api', stock: 'api' },
+    });
+    expect(record.apiDetails).toEqual({
+      internalId: 48213,
+      matrixOptions: [
+        { internalId: 48214, sku: 'GLV-NIT-BX-S', options: { custitem_size: 'Small' }, inStock: true, quantityAvailable: 90 },
+        { internalId: 48215, sku: 'GLV-NIT-BX-M', options: { custitem_size: 'Medium' }, inStock: false, quantityAvailable: 0 },
+      ],
+      images: [`${SITE_URL}/images/GLV-NIT-BX.jpg`],
+      categories: ['Gloves', 'Exam Room'],
+      priceLevels: { pricelevel1: 9.5, pricelevel5: 8.75 },
+      priceSchedule: [
+        { minimumquantity: 0, maximumquantity: 10, price: 8.75, price_formatted: '$8.75' },
+        { minimumquantity: 10, maximumquantity: undefined, price: 7.9, price_formatted: '$7.90' },
+      ],
+      isInStock: true,
+      isBackorderable: false,
+      isPurchasable: true,
+    });
+  });
+
+  test('ignores fields of unexpected types and falls back to the internal id URL', () => {
+    const record = mapItemToRecord({ internalid: 7, itemid: 42, quantityavailable: '5', matrixchilditems_detail: 'n/a' }, site, 'bluestar');
+    expect(record).toMatchObject({ productUrl: `${SITE_URL}/product/7`, sku: '42', stock: null, stockStatus: 'unknown' });
+    expect(record.apiDetails?.matrixOptions).toEqual([]);
+  });
+});
+
+test.describe('fetchAllItems', () => {
+  // Only page.request.get is used; it serves 250 items in pages of offset/limit.
+  const fakePage = (requested: string[]): Page => {
+    const get = async (url: string) => {
+      requested.push(url);
+      const params = new URL(url).searchParams;
+      const offset = Number(params.get('offset'));
+      const count = Math.max(0, Math.min(Number(params.get('limit')), 250 - offset));
+      const items = Array.from({ length: count }, (_, i) => ({ itemid: `ITEM-${offset + i}` }));
+      return { ok: () => true, status: () => 200, json: async () => ({ total: 250, items }) };
+    };
+    return { request: { get } } as unknown as Page;
+  };
+
+  test('pages through the captured request until the total is reached', async () => {
+    const requested: string[] = [];
+    const items = await fetchAllItems(fakePage(requested), `${SITE_URL}/api/items?q=gloves&offset=0&limit=24`);
+    expect(items).toHaveLength(250);
+    expect(items[249]).toEqual({ itemid: 'ITEM-249' });
+    expect(requested.map((u) => new URL(u).search)).toEqual([
+      '?q=gloves&offset=0&limit=100',
+      '?q=gloves&offset=100&limit=100',
+      '?q=gloves&offset=200&limit=100',
+    ]);
+  });
+
+  test('fails on an error response', async () => {
+    const page = { request: { get: async () => ({ ok: () => false, status: () => 403 }) } } as unknown as Page;
+    await expect(fetchAllItems(page, `${SITE_URL}/api/items?q=gloves`)).rejects.toThrow('Items API returned 403');
+  });
+});
@@ -0,0 +1,131 @@
+import { test, expect } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildRunManifest,
+  configureLogging,
+  durationStats,
+  loadMetricsHistory,
+  logger,
+  renderMetricsSummary,
+  runWithLogContext,
+  startRunTracker,
+  timePhase,
+  writeRunManifest,
+} from '../../src';
+import type { TargetMetrics } from '../../src';
+
+const targetMetrics = (overrides: Partial<TargetMetrics> = {}): TargetMetrics => ({
+  target: 'bluestar',
+  pagesDiscovered: 3,
+  totalResults: 70,
+  urlsCollected: 70,
+  scraped: 60,
+  reused: 8,
+  resumed: 0,
+  failed: 2,
+  productPages: { count: 60, avgMs: 1200, p95Ms: 2500, maxMs: 4000 },
+  phases: { collect: 15000, products: 90000 },
+  ...overrides,
+});
+
+test.describe('run metrics', () => {
+  test('summarizes product page durations', () => {
+    expect(durationStats([])).toBeNull();
+    expect(durationStats([300, 100, 200, 400])).toEqual({ count: 4, avgMs: 250, p95Ms: 400, maxMs: 400 });
+  });
+
+  test('adds phase time also when the phase throws', async () => {
+    const phases = {};
+    await timePhase(phases, 'login', async () => undefined);
+    await expect(timePhase(phases, 'login', async () => Promise.reject(new Error('rejected')))).rejects.toThrow('rejected');
+    expect(Object.keys(phases)).toEqual(['login']);
+  });
+
+  test('builds the manifest with totals across targets and the failure reason', () => {
+    const tracker = startRunTracker('run-1', { mode: 'api', incremental: true }, new Date('2026-03-02T12:00:00Z'));
+    tracker.targets.push(targetMetrics(), targetMetrics({ target: 'other', pagesDiscovered: null, reused: 0, resumed: 8, failed: 0 }));
+    tracker.qualityScore = 97;
+    const manifest = buildRunManifest(tracker, new Date('2026-03-02T12:05:00Z'), new Error('Login rejected'));
+
+    expect(manifest).toMatchObject({
+      runId: 'run-1',
+      durationMs: 300000,
+      status: 'failed',
+      error: 'Login rejected',
+      options: { mode: 'api', incremental: true, comparePrices: false },
+      totals: { pagesDiscovered: 3, urlsCollected: 140, scraped: 120, reused: 8, resumed: 8, failed: 2 },
+      qualityScore: 97,
+    });
+    expect(manifest.scraperVersion).toBeTruthy();
+  });
+
+  test('writes run.json and appends to the metrics history', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bluestar-metrics-'));
+    try {
+      for (const [runId, urlsCollected] of [['run-1', 70], ['run-2', 64]] as const) {
+        const tracker = startRunTracker(runId, {}, new Date('2026-03-02T12:00:00Z'));
+        tracker.targets.push(targetMetrics({ urlsCollected }));
+        await writeRunManifest(buildRunManifest(tracker, new Date('2026-03-02T12:02:00Z')), dir);
+      }
+      const manifest = JSON.parse(await fs.readFile(path.join(dir, 'run.json'), 'utf8'));
+      expect(manifest.runId).toBe('run-2');
+      const history = JSON.parse(await fs.readFile(path.join(dir, 'run_metrics.json'), 'utf8'));
+      expect(history.map((h: { urlsCollected: number }) => h.urlsCollected)).toEqual([70, 64]);
+      expect(history[1].avgProductPageMs).toBe(1200);
+
+      const summary = renderMetricsSummary(history);
+      expect(summary).toContain('Run `run-2` succeeded in 2m 0s.');
+      expect(summary).toContain('| URLs collected | 64 (-6) |');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('keeps only the most recent runs in the metrics history', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bluestar-metrics-'));
+    try {
+      for (const runId of ['run-1', 'run-2', 'run-3', 'run-4']) {
+        const tracker = startRunTracker(runId, {}, new Date('2026-03-02T12:00:00Z'));
+        await writeRunManifest(buildRunManifest(tracker, new Date('2026-03-02T12:02:00Z')), dir, { maxRuns: 3 });
+      }
+      expect((await loadMetricsHistory(dir)).map((h) => h.runId)).toEqual(['run-2', 'run-3', 'run-4']);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+test.describe('structured logging', () => {
+  test.afterEach(() => configureLogging({ level: 'info', format: 'text', write: (line) => process.stdout.write(line) }));
+
+  test('writes JSON lines with level, run context and fields', async () => {
+    const lines: string[] = [];
+    configureLogging({ format: 'json', level: 'info', write: (line) => lines.push(line) });
+    await runWithLogContext({ runId: 'run-1' }, async () => {
+      logger.debug('hidden below the level');
+      logger.child({ target: 'bluestar' }).warn('Attempt failed', { attempt: 1, error: new Error('timeout') });
+    });
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      level: 'warn',
+      msg: 'Attempt failed',
+      runId: 'run-1',
+      target: 'bluestar',
+      attempt: 1,
+      error: 'timeout',
+    });
+  });
+
+  test('keeps its own time, level and msg when fields use the same names', () => {
+    const lines: string[] = [];
+    configureLogging({ format: 'json', level: 'info', write: (line) => lines.push(line) });
+    logger.info('Run finished', { level: 'debug', msg: 'overwritten', time: 'never' });
+
+    const entry = JSON.parse(lines[0]);
+    expect(entry).toMatchObject({ level: 'info', msg: 'Run finished' });
+    expect(entry.time).not.toBe('never');
+  });
+});
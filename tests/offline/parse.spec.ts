@@ -0,0 +1,43 @@
+import { test, expect } from '@playwright/test';
+import { comparePrices, parsePriceToNumber, parseStockToNumber } from '../../src';
+
+test.describe('parsePriceToNumber', () => {
+  test('strips currency symbols and thousands separators', () => {
+    expect(parsePriceToNumber('$90.50')).toBe(90.5);
+    expect(parsePriceToNumber('$1,234.56')).toBe(1234.56);
+  });
+
+  test('returns null for missing values', () => {
+    expect(parsePriceToNumber(null)).toBeNull();
+    expect(parsePriceToNumber('')).toBeNull();
+    expect(parsePriceToNumber('Call for price')).toBeNull();
+  });
+});
+
+test.describe('parseStockToNumber', () => {
+  test('parses counts with separators', () => {
+    expect(parseStockToNumber('78')).toBe(78);
+    expect(parseStockToNumber('1,332')).toBe(1332);
+  });
+
+  test('returns null when there is no number', () => {
+    expect(parseStockToNumber('Out of stock')).toBeNull();
+    expect(parseStockToNumber(null)).toBeNull();
+  });
+});
+
+test.describe('comparePrices', () => {
+  test('computes the account discount against the guest price', () => {
+    expect(comparePrices('$4.00', '$3.48')).toEqual({
+      guestPrice: '$4.00',
+      accountPrice: '$3.48',
+      discountCents: 52,
+      discountPercent: 13,
+    });
+    expect(comparePrices('$1,000.00', '$1,000.00').discountCents).toBe(0);
+  });
+
+  test('leaves the discount empty when the guest page hides the price', () => {
+    expect(comparePrices(null, '$3.48')).toEqual({ guestPrice: null, accountPrice: '$3.48', discountCents: null, discountPercent: null });
+  });
+});
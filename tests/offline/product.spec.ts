@@ -0,0 +1,89 @@
+import { extractProductDetails, formatPrice, resolveProductFields, withPriceComparison } from '../../src';
+import { expect, test } from './fixtureServer';
+
+test.describe('extractProductDetails', () => {
+  test('prefers JSON-LD product data', async ({ page, siteUrl }) => {
+    await page.goto(`${siteUrl}/10-Panel-Urine-Dip-Card`);
+    const record = await extractProductDetails(page, 'bluestar');
+    expect(record).toMatchObject({
+      target: 'bluestar',
+      productUrl: `${siteUrl}/10-Panel-Urine-Dip-Card`,
+      productName: '10 Panel Urine Dip Card - 25 per Box',
+      sku: 'TST-10PD-PD-3104',
+      mpn: 'WDOA-3104',
+      manufacturer: 'Bluestar',
+      price: '$90.50',
+      stock: '78',
+      description: '10 Panel Dip Card. CLIA Waived.',
+    });
+    expect(record.fieldSources).toEqual({
+      productName: 'jsonld',
+      sku: 'jsonld',
+      mpn: 'jsonld',
+      manufacturer: 'jsonld',
+      price: 'jsonld',
+      stock: 'regex',
+      description: 'jsonld',
+    });
+  });
+
+  test('uses microdata scoped to the product and DOM elements', async ({ page, siteUrl }) => {
+    await page.goto(`${siteUrl}/Oral-Anesthetic-Gel`);
+    const record = await extractProductDetails(page, 'bluestar');
+    expect(record).toMatchObject({
+      productName: 'Oral Anesthetic Gel, 144 Packets per Box',
+      sku: 'ORA-075G-GEL-144BX',
+      mpn: null,
+      manufacturer: 'Dynarex',
+      price: '$21.57',
+      stock: '55',
+      description: 'Oral Anesthetic Gel - 20% Benzocaine - 0.75gram Packets - 144 Packets per Box',
+    });
+    expect(record.fieldSources).toMatchObject({ productName: 'microdata', manufacturer: 'microdata', description: 'dom' });
+  });
+
+  test('falls back to the details text and trims the description', async ({ page, siteUrl }) => {
+    await page.goto(`${siteUrl}/Tolnaftate-Antifungal-Cream`);
+    const record = await extractProductDetails(page, 'bluestar');
+    expect(record).toMatchObject({
+      productName: 'Tolnaftate Antifungal Cream',
+      sku: 'CRE-TOL-05OZ',
+      manufacturer: 'Bluestar Labs',
+      price: '$3.48',
+      stock: '1332',
+      description: '1% Strength\n0.5oz Tube',
+    });
+    expect(record.fieldSources).toMatchObject({ productName: 'dom', sku: 'regex', description: 'regex' });
+  });
+});
+
+test.describe('guest price comparison', () => {
+  test('records no guest price or discount when the guest page hides the price', async ({ page, siteUrl }) => {
+    await page.goto(`${siteUrl}/Tolnaftate-Antifungal-Cream`);
+    const account = await extractProductDetails(page, 'bluestar');
+    await page.goto(`${siteUrl}/Tolnaftate-Antifungal-Cream-guest`);
+    const guest = await extractProductDetails(page, 'bluestar');
+
+    expect(guest.price).toBeNull();
+    expect(withPriceComparison(account, guest.price).priceComparison).toEqual({
+      guestPrice: null,
+      accountPrice: '$3.48',
+      discountCents: null,
+      discountPercent: null,
+    });
+  });
+});
+
+test.describe('resolveProductFields', () => {
+  test('skips price text without digits instead of reading it as $0.00', () => {
+    expect(formatPrice('Call for price')).toBeNull();
+    const { values, fieldSources } = resolveProductFields({
+      jsonld: {},
+      microdata: {},
+      dom: { productName: 'Hidden Price Gauze', price: 'Log in to see price' },
+      detailsText: 'Hidden Price Gauze\nSKU: GAU-HID-01\nLog in to see price',
+    });
+    expect(values.price).toBeNull();
+    expect(fieldSources.price).toBeUndefined();
+  });
+});
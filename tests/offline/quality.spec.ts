@@ -0,0 +1,57 @@
+import { test, expect } from '@playwright/test';
+import { buildQualityReport, normalizeRecord, validateRecord } from '../../src';
+import { SITE_URL, productRecord, rawRecord } from './records';
+
+test.describe('normalizeRecord', () => {
+  test('derives cents, quantity and status', () => {
+    expect(normalizeRecord(rawRecord({ price: '$1,234.56', stock: '0' }))).toMatchObject({
+      priceCents: 123456,
+      stockQuantity: 0,
+      stockStatus: 'out_of_stock',
+    });
+  });
+
+  test('reads the status from stock text without a count', () => {
+    expect(normalizeRecord(rawRecord({ stock: 'Out of stock' })).stockStatus).toBe('out_of_stock');
+    expect(normalizeRecord(rawRecord({ stock: null })).stockStatus).toBe('unknown');
+  });
+});
+
+test.describe('validateRecord', () => {
+  test('flags malformed price and stock values', () => {
+    const issues = validateRecord(productRecord({ price: '$90.50.', stock: 'Out of stock' }));
+    expect(issues.map((i) => i.field)).toEqual(['price', 'stock']);
+  });
+});
+
+test.describe('buildQualityReport', () => {
+  test('passes clean data', () => {
+    const report = buildQualityReport('run', [productRecord()]);
+    expect(report.passed).toBe(true);
+    expect(report.score).toBe(100);
+  });
+
+  test('fails on null SKUs and duplicate SKUs', () => {
+    const records = [
+      productRecord(),
+      productRecord({ productUrl: `${SITE_URL}/Other` }),
+      productRecord({ productUrl: `${SITE_URL}/Third`, sku: null }),
+    ];
+    const report = buildQualityReport('run', records, { maxNullRate: { sku: 0 } });
+    expect(report.passed).toBe(false);
+    expect(report.duplicateSkus).toEqual([
+      {
+        target: 'bluestar',
+        sku: 'CRE-TOL-05OZ',
+        productUrls: [`${SITE_URL}/Tolnaftate-Antifungal-Cream`, `${SITE_URL}/Other`],
+      },
+    ]);
+    expect(report.violations).toContain('sku null rate 0.3333 > 0');
+  });
+
+  test('keeps the default null rates of fields the config does not override', () => {
+    const records = [productRecord(), productRecord({ productUrl: `${SITE_URL}/Other`, sku: 'X', price: null })];
+    const report = buildQualityReport('run', records, { maxNullRate: { sku: 0.5 } });
+    expect(report.violations).toContain('price null rate 0.5 > 0.05');
+  });
+});
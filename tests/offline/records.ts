@@ -0,0 +1,22 @@
+import { normalizeRecord } from '../../src';
+import type { ProductRecord, RawProductRecord } from '../../src';
+
+export const SITE_URL = 'https://www.medstatsupplies.com';
+
+// What the scraper reads from one product page; tests override only the fields they exercise.
+export const rawRecord = (overrides: Partial<RawProductRecord> = {}): RawProductRecord => ({
+  target: 'bluestar',
+  productUrl: `${SITE_URL}/Tolnaftate-Antifungal-Cream`,
+  productName: 'Tolnaftate Antifungal Cream',
+  sku: 'CRE-TOL-05OZ',
+  mpn: null,
+  manufacturer: null,
+  price: '$3.48',
+  stock: '332',
+  description: null,
+  fieldSources: {},
+  ...overrides,
+});
+
+// The same record with the typed price and stock fields derived as the scraper stores it.
+export const productRecord = (overrides: Partial<RawProductRecord> = {}): ProductRecord => normalizeRecord(rawRecord(overrides));
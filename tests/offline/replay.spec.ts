@@ -0,0 +1,47 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  collectAllProductUrls,
+  extractProductDetails,
+  openReplay,
+  recordedTarget,
+  replayRecording,
+  startRecording,
+  writeRecordingManifest,
+} from '../../src';
+import type { ScrapeConfig } from '../../src';
+import { expect, test } from './fixtureServer';
+
+test('replays a recorded session without the site', async ({ browser, siteUrl }) => {
+  const recordingDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bluestar-recording-'));
+  const config: ScrapeConfig = {
+    sites: { fixture: { baseUrl: siteUrl, loginUrl: `${siteUrl}/login` } },
+    targets: [{ name: 'bluestar', site: 'fixture', categoryUrl: '/search?keywords=BLUESTAR' }],
+  };
+
+  const recordContext = await browser.newContext();
+  await startRecording(recordContext, config, recordingDir);
+  const recordPage = await recordContext.newPage();
+  const { urls } = await collectAllProductUrls(recordPage, `${siteUrl}/search?keywords=BLUESTAR`);
+  const live = [];
+  for (const url of urls.slice(0, 3)) {
+    await recordPage.goto(url);
+    live.push(await extractProductDetails(recordPage, 'bluestar'));
+  }
+  await recordContext.close();
+  await writeRecordingManifest(recordingDir, {
+    runId: 'test',
+    recordedAt: new Date().toISOString(),
+    targets: [recordedTarget(config, config.targets[0], urls, {})],
+  });
+
+  const replayContext = await browser.newContext();
+  await openReplay(replayContext, recordingDir);
+  const replayPage = await replayContext.newPage();
+  const { records } = await replayRecording(replayPage, recordingDir, { productUrls: urls.slice(0, 3), concurrency: 1 });
+  await replayContext.close();
+
+  expect(records).toEqual(live);
+  await fs.rm(recordingDir, { recursive: true, force: true });
+});
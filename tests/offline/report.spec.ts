@@ -0,0 +1,48 @@
+import { test, expect } from '@playwright/test';
+import { changeSections, diffRuns, renderHtmlReport, renderMarkdownReport, snapshotRun } from '../../src';
+import type { ProductRecord } from '../../src';
+import { SITE_URL, productRecord } from './records';
+
+const run = (runId: string, records: ProductRecord[]) => snapshotRun(runId, ['bluestar'], records);
+
+// Price up for the cream, price down and out of stock for the gauze, a new dip card and the gel delisted.
+const gauze = (price: string, stock: string) =>
+  productRecord({ productUrl: `${SITE_URL}/Sterile-Gauze-Pads`, productName: 'Gauze <4x4> | 200 "ct"', sku: 'GAU-STE-4X4', price, stock });
+const gel = productRecord({ productUrl: `${SITE_URL}/Oral-Anesthetic-Gel`, productName: 'Oral Anesthetic Gel', sku: 'GEL-ORA-1OZ' });
+const dipCard = productRecord({ productUrl: `${SITE_URL}/10-Panel-Urine-Dip-Card`, productName: '10 Panel Dip Card', sku: 'TST-10PD' });
+const diff = diffRuns(
+  run('run-1', [productRecord(), gauze('$12.99', '40'), gel]),
+  run('run-2', [productRecord({ price: '$3.98' }), gauze('$11.69', '0'), dipCard]),
+);
+
+test.describe('change report', () => {
+  test('lists every section in reading order, empty ones included', () => {
+    expect(changeSections(diff).map((s) => [s.title, s.rows.map((r) => r.sku)])).toEqual([
+      ['Price increases', ['CRE-TOL-05OZ']],
+      ['Price decreases', ['GAU-STE-4X4']],
+      ['Out of stock', ['GAU-STE-4X4']],
+      ['Back in stock', []],
+      ['New products', ['TST-10PD']],
+      ['Delisted products', ['GEL-ORA-1OZ']],
+      ['Image changes', []],
+    ]);
+  });
+
+  test('renders Markdown tables with escaped cells', () => {
+    const markdown = renderMarkdownReport(diff);
+    expect(markdown).toContain('Run run-2 compared with run-1: 1 new, 1 removed, 2 price changes, 1 stock-outs, 0 restocks, 0 image changes.');
+    expect(markdown).toContain(`| CRE-TOL-05OZ | Tolnaftate Antifungal Cream | $3.48 | $3.98 | +14.37% | ${SITE_URL}/Tolnaftate-Antifungal-Cream |`);
+    expect(markdown).toContain(`| GAU-STE-4X4 | Gauze <4x4> \\| 200 "ct" | $12.99 | $11.69 | -10.01% | ${SITE_URL}/Sterile-Gauze-Pads |`);
+    expect(markdown).toContain('## Back in stock (0)\n\nNone.');
+  });
+
+  test('renders HTML with escaped names and links', () => {
+    const html = renderHtmlReport(diff);
+    expect(html).toContain('<h2>Out of stock (1)</h2>');
+    expect(html).toContain(
+      `<td>GAU-STE-4X4</td><td><a href="${SITE_URL}/Sterile-Gauze-Pads">Gauze &lt;4x4&gt; | 200 &quot;ct&quot;</a></td><td>40</td><td>0</td><td></td>`,
+    );
+    expect(html).toContain('<h2>Image changes (0)</h2>\n<p>None.</p>');
+    expect(html).not.toContain('<4x4>');
+  });
+});
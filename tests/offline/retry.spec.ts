@@ -0,0 +1,49 @@
+import { test, expect } from '@playwright/test';
+import { AuthError, RetryError, retryWithBackoff } from '../../src';
+
+test.describe('retryWithBackoff', () => {
+  test('returns the first successful attempt and doubles the delay between retries', async () => {
+    const delays: number[] = [];
+    const result = await retryWithBackoff(
+      async (attempt) => {
+        if (attempt < 3) throw new Error(`Timeout on attempt ${attempt}`);
+        return attempt;
+      },
+      { retries: 3, retryDelayMs: 5 },
+      (_err, _attempt, delayMs) => delays.push(delayMs),
+    );
+    expect(result).toBe(3);
+    expect(delays).toEqual([5, 10]);
+  });
+
+  test('gives up after the configured retries with the attempt count and last error', async () => {
+    let calls = 0;
+    const error = await retryWithBackoff(
+      async (attempt) => {
+        calls += 1;
+        throw new Error(`Timeout on attempt ${attempt}`);
+      },
+      { retries: 2, retryDelayMs: 1 },
+    ).catch((err) => err);
+    expect(calls).toBe(3);
+    expect(error).toBeInstanceOf(RetryError);
+    expect(error).toMatchObject({ attempts: 3, message: 'Timeout on attempt 3' });
+    expect(error.lastError).toBeInstanceOf(Error);
+  });
+
+  test('rethrows errors that are not retryable without further attempts', async () => {
+    let calls = 0;
+    const rejected = new AuthError('Login rejected', 'rejected');
+    const run = retryWithBackoff(
+      async () => {
+        calls += 1;
+        throw rejected;
+      },
+      { retries: 2, retryDelayMs: 1 },
+      undefined,
+      (err) => !(err instanceof AuthError),
+    );
+    await expect(run).rejects.toBe(rejected);
+    expect(calls).toBe(1);
+  });
+});
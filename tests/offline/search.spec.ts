@@ -0,0 +1,44 @@
+import { collectAllProductUrls, collectProductUrlsForPage, readPagerInfo } from '../../src';
+import { expect, test } from './fixtureServer';
+
+test.describe('search result collection', () => {
+  test('collects tile links from the first page', async ({ page, siteUrl }) => {
+    const urls = await collectProductUrlsForPage(page, `${siteUrl}/search?keywords=BLUESTAR`, 1);
+    expect(urls).toEqual([
+      `${siteUrl}/10-Panel-Urine-Dip-Card`,
+      `${siteUrl}/Oral-Anesthetic-Gel`,
+      `${siteUrl}/Tolnaftate-Antifungal-Cream`,
+    ]);
+  });
+
+  test('falls back to product-like hrefs and skips search/checkout links', async ({ page, siteUrl }) => {
+    const urls = await collectProductUrlsForPage(page, `${siteUrl}/search?keywords=BLUESTAR`, 2);
+    expect(urls).toEqual([`${siteUrl}/Glucose-Tablets`, `${siteUrl}/product/12345`]);
+  });
+
+  test('reads the result count and page count from the pager', async ({ page, siteUrl }) => {
+    await page.goto(`${siteUrl}/search?keywords=BLUESTAR`);
+    expect(await readPagerInfo(page)).toEqual({ totalResults: 5, pagerPageCount: 2 });
+  });
+
+  test('paginates until a page yields no new URLs', async ({ page, siteUrl }) => {
+    const { urls, summary } = await collectAllProductUrls(page, `${siteUrl}/search?keywords=BLUESTAR`);
+    expect(urls).toHaveLength(5);
+    expect(summary).toEqual({
+      totalResults: 5,
+      pagerPageCount: 2,
+      pagesDiscovered: 2,
+      urlsCollected: 5,
+      pages: [
+        { pageIndex: 1, urlCount: 3, newUrlCount: 3 },
+        { pageIndex: 2, urlCount: 2, newUrlCount: 2 },
+      ],
+    });
+  });
+
+  test('stops at maxPages', async ({ page, siteUrl }) => {
+    const { urls, summary } = await collectAllProductUrls(page, `${siteUrl}/search?keywords=BLUESTAR`, 1);
+    expect(urls).toHaveLength(3);
+    expect(summary.pagesDiscovered).toBe(1);
+  });
+});
@@ -0,0 +1,85 @@
+import { test, expect } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import type { Server } from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { HISTORY_FILENAME, snapshotRun, startServer } from '../../src';
+import type { ScrapeResult } from '../../src';
+import { SITE_URL, productRecord } from './records';
+
+test.describe('local API', () => {
+  let outputDir: string;
+  let server: Server;
+  let baseUrl: string;
+  let finishScrape: (result: ScrapeResult) => void;
+
+  test.beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bluestar-server-'));
+    const gel = { productUrl: `${SITE_URL}/Oral-Anesthetic-Gel`, productName: 'Oral Anesthetic Gel', sku: 'GEL-ORA-1OZ', price: '$2.10' };
+    const current = [productRecord({ price: '$3.98' }), productRecord(gel)];
+    const previous = [productRecord({ price: '$3.48' })];
+    await fs.writeFile(path.join(outputDir, 'products_all.json'), JSON.stringify(current));
+    const runs = [snapshotRun('run-1', ['bluestar'], previous), snapshotRun('run-2', ['bluestar'], current)];
+    await fs.writeFile(path.join(outputDir, HISTORY_FILENAME), JSON.stringify({ runs }));
+    const started = await startServer({
+      port: 0,
+      outputDir,
+      runScrape: () => new Promise((resolve) => (finishScrape = resolve)),
+    });
+    server = started.server;
+    baseUrl = started.url;
+  });
+
+  test.afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  test('searches products', async () => {
+    const body = await (await fetch(`${baseUrl}/api/products?q=antifungal%20cream`)).json();
+    expect(body.total).toBe(1);
+    expect(body.items[0].sku).toBe('CRE-TOL-05OZ');
+    expect((await (await fetch(`${baseUrl}/api/products`)).json()).total).toBe(2);
+  });
+
+  test('returns a product with its price history', async () => {
+    const body = await (await fetch(`${baseUrl}/api/products/cre-tol-05oz`)).json();
+    expect(body.history.map((p: { price: number }) => p.price)).toEqual([3.48, 3.98]);
+    expect((await fetch(`${baseUrl}/api/products/UNKNOWN`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/api/products/CRE-%E0%A4%A`)).status).toBe(400);
+  });
+
+  test('lists runs newest first', async () => {
+    const runs = await (await fetch(`${baseUrl}/api/runs`)).json();
+    expect(runs.map((r: { runId: string }) => r.runId)).toEqual(['run-2', 'run-1']);
+  });
+
+  test('starts one scrape at a time', async () => {
+    const post = () => fetch(`${baseUrl}/api/scrape`, { method: 'POST', headers: { 'content-type': 'application/json' }, body: '{}' });
+    expect((await post()).status).toBe(202);
+    expect((await post()).status).toBe(409);
+    expect((await fetch(`${baseUrl}/api/scrape`, { method: 'POST' })).status).toBe(415);
+    finishScrape({ runId: 'run-3', records: [] } as unknown as ScrapeResult);
+    await expect.poll(async () => (await (await fetch(`${baseUrl}/api/scrape`)).json()).running).toBe(false);
+  });
+
+  test('rejects requests for another host name', async () => {
+    // Sent with http.get so the request carries exactly the Host header given, as a rebound browser page would.
+    const statusFor = (host: string) =>
+      new Promise<number | undefined>((resolve, reject) => {
+        http.get(`${baseUrl}/api/runs`, { headers: { host } }, (res) => resolve(res.resume().statusCode)).on('error', reject);
+      });
+    const { port } = new URL(baseUrl);
+    expect(await statusFor(`attacker.example:${port}`)).toBe(403);
+    expect(await statusFor(`127.0.0.1:${Number(port) + 1}`)).toBe(403);
+    expect(await statusFor(`127.0.0.1:${port}`)).toBe(200);
+    expect(await statusFor(`localhost:${port}`)).toBe(200);
+  });
+
+  test('serves the dashboard', async () => {
+    const response = await fetch(baseUrl);
+    expect(response.headers.get('content-type')).toContain('text/html');
+    expect(await response.text()).toContain('/api/products');
+  });
+});